@@ -0,0 +1,66 @@
+/**
+ * atomFamilyWithHistory
+ *
+ * Creates a family of atoms with history whose members have stable IDs derived
+ * from their params, so their history survives members being recreated
+ */
+
+import type { WritableAtom } from 'jotai/vanilla';
+import { atomFamily } from 'jotai/vanilla/utils';
+import type { AtomFamilyWithHistory, AtomFamilyWithHistoryOptions, AtomWithHistory } from './types';
+import { defaultHistoryScope, resolveHistoryAtomId, unregisterHistoryAtom } from './historyManager';
+import { withHistory } from './atomWithHistory';
+
+// Key of a param used in member IDs
+function getDefaultParamKey(param: unknown): string {
+  return typeof param === 'string' ? param : JSON.stringify(param);
+}
+
+/**
+ * Creates a family of atoms with history
+ *
+ * @param initializeAtom - Creates the atom of a member, e.g. `(id) => atom({ id, text: '' })`
+ * @param options - Options applied to every member, plus the family ID and param handling
+ * @returns A family like Jotai's atomFamily, whose removed members are unregistered
+ */
+export function atomFamilyWithHistory<Param, Value, Args extends unknown[], Result>(
+  initializeAtom: (param: Param) => WritableAtom<Value, Args, Result>,
+  options: AtomFamilyWithHistoryOptions<Param, Value, Args> = {}
+): AtomFamilyWithHistory<Param, Value, Args, Result> {
+  const { getParamKey = getDefaultParamKey, areEqual, ...memberOptions } = options;
+  const scope = options.scope || defaultHistoryScope;
+  const familyId = resolveHistoryAtomId(options.id, scope);
+  const getMemberId = (param: Param) => `${familyId}:${getParamKey(param)}`;
+
+  // Members created so far by ID, so removed ones can be unregistered
+  const members = new Map<string, AtomWithHistory<Value, Args, Result>>();
+
+  const family = atomFamily((param: Param) => {
+    const member = withHistory(initializeAtom(param), { ...memberOptions, id: getMemberId(param) });
+    members.set(member.id, member);
+    return member;
+  }, areEqual);
+
+  const unregister = (param: Param) => {
+    const member = members.get(getMemberId(param));
+    if (!member) return;
+    members.delete(member.id);
+    unregisterHistoryAtom(member, scope);
+  };
+
+  const familyWithHistory = ((param: Param) => family(param)) as AtomFamilyWithHistory<Param, Value, Args, Result>;
+  familyWithHistory.getParams = () => family.getParams();
+  familyWithHistory.remove = (param) => {
+    unregister(param);
+    family.remove(param);
+  };
+  familyWithHistory.setShouldRemove = (shouldRemove) => {
+    family.setShouldRemove(shouldRemove && ((createdAt, param) => {
+      const remove = shouldRemove(createdAt, param);
+      if (remove) unregister(param);
+      return remove;
+    }));
+  };
+
+  return familyWithHistory;
+}
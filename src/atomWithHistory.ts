@@ -4,16 +4,91 @@
  * Creates a Jotai atom that tracks its history for undo/redo operations
  */
 
-import { atom } from 'jotai';
-import type { AtomWithHistory, AtomWithHistoryOptions } from './types';
+import { atom } from 'jotai/vanilla';
+import type { PrimitiveAtom, SetStateAction, WritableAtom } from 'jotai/vanilla';
+import type {
+  AtomWithHistory,
+  AtomWithHistoryOptions,
+  HistoryStore,
+  HistoryStoreAccess,
+  WithHistoryOptions
+} from './types';
 import { 
-  generateId, 
+  breakCoalescing,
+  defaultHistoryScope,
+  getRegistration,
   historyStore,
   isHistoryOperationInProgressAtom, 
+  isHistoryPaused,
   pushToHistory,
-  registerHistoryAtom
+  registerHistoryAtom,
+  resolveHistoryAtomId
 } from './historyManager';
 
+/**
+ * Resolves an atom's ID and creates the functions recording its changes with its history options
+ */
+function createHistoryRecorder<Value>(options: AtomWithHistoryOptions<Value>) {
+  const scope = options.scope || defaultHistoryScope;
+  // Use the given ID, or derive a stable one
+  const id = resolveHistoryAtomId(options.id, scope);
+  const historyLimit = options.historyLimit;
+  const shouldTrack = options.shouldTrack || ((prev, next) => prev !== next);
+  
+  // Handle custom diff function with type casting for compatibility
+  const customDiff = options.customDiff ? 
+    ((prev: unknown, next: unknown) => 
+      options.customDiff!(prev as Value, next as Value)
+    ) : undefined;
+  const label = options.label ?
+    ((prev: unknown, next: unknown) =>
+      options.label!(prev as Value, next as Value)
+    ) : undefined;
+  const mergeKey = options.mergeKey ?
+    ((prev: unknown, next: unknown) =>
+      options.mergeKey!(prev as Value, next as Value)
+    ) : undefined;
+
+  return {
+    id,
+    scope,
+    shouldTrack,
+    record: (
+      store: HistoryStoreAccess,
+      prevValue: Value,
+      nextValue: Value,
+      useFullValueInstead = options.useFullValueInstead
+    ) => {
+      // Skip recording history if we're in the middle of an undo/redo operation
+      if (store.get(isHistoryOperationInProgressAtom)) return;
+
+      // Record the previous value in history using diff
+      pushToHistory(store, id, prevValue, nextValue, { 
+        historyLimit,
+        customDiff, 
+        diffFormat: options.diffFormat,
+        useFullValueInstead,
+        scope,
+        getKey: options.getKey,
+        checkpointInterval: options.checkpointInterval,
+        checkpointThreshold: options.checkpointThreshold,
+        label,
+        mergeWindowMs: options.mergeWindowMs,
+        mergeKey
+      });
+    },
+    register: (atom: AtomWithHistory<Value>, state?: PrimitiveAtom<Value>) => {
+      // Register the atom with the history system
+      registerHistoryAtom(atom, scope, {
+        patch: options.customPatch,
+        inversePatch: options.customInversePatch,
+        historyLimit,
+        state
+      });
+    }
+  };
+}
+
 /**
  * Creates an atom with history tracking
  * 
@@ -25,21 +100,12 @@ export function atomWithHistory<Value>(
   initialValue: Value,
   options: AtomWithHistoryOptions<Value> = {}
 ): AtomWithHistory<Value> {
-  // Generate a unique ID for this atom if not provided
-  const id = options.id || generateId();
-  const historyLimit = options.historyLimit;
-  const shouldTrack = options.shouldTrack || ((prev, next) => prev !== next);
+  const { id, scope, shouldTrack, record, register } = createHistoryRecorder(options);
   
-  // Handle custom diff function with type casting for compatibility
-  const customDiff = options.customDiff ? 
-    ((prev: unknown, next: unknown) => 
-      options.customDiff!(prev as Value, next as Value)
-    ) : undefined;
-    
-  const useFullValueInstead = options.useFullValueInstead;
-  
-  // Create the base atom
-  const baseAtom = atom(initialValue);
+  // Create the base atom. An atom replacing one with the same ID, e.g. after
+  // hot module reload, keeps the old atom's value so its history still applies.
+  const previousState = getRegistration(scope, id)?.state as PrimitiveAtom<Value> | undefined;
+  const baseAtom = previousState || atom(initialValue);
   
   // Create a writable atom that tracks history
   const anAtom = atom(
@@ -47,51 +113,109 @@ export function atomWithHistory<Value>(
     (get) => get(baseAtom),
     
     // Setter
-    (get, set, update: Value) => {
+    (get, set, update: SetStateAction<Value>) => {
       // Get current value before update
       const prevValue = get(baseAtom);
-      const nextValue = update;
+      const nextValue = typeof update === 'function'
+        ? (update as (prev: Value) => Value)(prevValue)
+        : update;
       
       // Skip if the value hasn't changed according to the tracking function
       if (!shouldTrack(prevValue, nextValue)) {
         return;
       }
       
-      // Skip recording history if we're in the middle of an undo/redo operation
-      const isHistoryOperation = get(isHistoryOperationInProgressAtom);
-      if (!isHistoryOperation) {
-        // Record the previous value in history using diff
-        pushToHistory(id, prevValue, nextValue, { 
-          historyLimit,
-          customDiff, 
-          useFullValueInstead
-        });
-      }
+      record({ get, set }, prevValue, nextValue);
       
       // Update the value
-      set(baseAtom, update);
+      set(baseAtom, nextValue);
     }
   ) as AtomWithHistory<Value>;
   
   // Attach the ID to the atom
   anAtom.id = id;
+  register(anAtom, baseAtom);
   
-  // Register the atom with the history system
-  registerHistoryAtom(anAtom);
-  
   return anAtom;
 }
 
 /**
- * Function to read an atom's value from the history store directly
+ * Adds history tracking to an existing writable atom, such as an atom from
+ * atomWithStorage, atomWithReducer or an async atom. Changes are recorded by
+ * comparing the atom's value before and after each write; changes rejected by
+ * `shouldTrack` are still written, just not recorded.
+ * 
+ * @param targetAtom - The atom to track. Undo/redo write values to it with the
+ *   arguments returned by `options.restore` (default: the value itself)
+ * @param options - Configuration options
+ * @returns An atom that reads and writes like the target and tracks its history
+ */
+export function withHistory<Value, Args extends unknown[], Result>(
+  targetAtom: WritableAtom<Value, Args, Result>,
+  options: WithHistoryOptions<Value, Args> = {}
+): AtomWithHistory<Value, Args, Result> {
+  const { id, scope, shouldTrack, record, register } = createHistoryRecorder(options);
+  const restore = options.restore || ((value: Value) => [value] as unknown as Args);
+
+  const recordChange = (store: HistoryStoreAccess, prevValue: Value, nextValue: Value) => {
+    if (!(prevValue instanceof Promise) && !(nextValue instanceof Promise)) {
+      if (shouldTrack(prevValue, nextValue)) record(store, prevValue, nextValue);
+      return;
+    }
+    // Async atoms are recorded with full values once both values resolve, since
+    // diffs can't be applied to the promises they hold. Whether the write is
+    // recorded is decided now, as a pause may have ended by then.
+    const unrecorded = isHistoryPaused(store) || store.get(isHistoryOperationInProgressAtom);
+    Promise.all([prevValue, nextValue]).then(([prev, next]) => {
+      if (unrecorded) {
+        // Like unrecorded sync writes, this ends the atom's run of coalesced changes
+        if (store.get(scope.coalescingEntryAtom)?.id === id) breakCoalescing(store, scope);
+        return;
+      }
+      if (shouldTrack(prev, next)) record(store, prev, next, true);
+    }, () => {});
+  };
+
+  const anAtom = atom(
+    (get) => get(targetAtom),
+    (get, set, ...args: Args) => {
+      // Undo and redo write plain values, as `restore` arguments
+      if (get(isHistoryOperationInProgressAtom)) {
+        const value = args[0] as Value;
+        const isAsync = get(targetAtom) instanceof Promise;
+        return set(targetAtom, ...restore(isAsync ? (Promise.resolve(value) as Value) : value));
+      }
+
+      const prevValue = get(targetAtom);
+      const result = set(targetAtom, ...args);
+      recordChange({ get, set }, prevValue, get(targetAtom));
+      return result;
+    }
+  ) as AtomWithHistory<Value, Args, Result>;
+
+  anAtom.id = id;
+  register(anAtom as unknown as AtomWithHistory<Value>);
+
+  return anAtom;
+}
+
+/**
+ * Function to read an atom's value from a store directly
  */
-export function getAtomValue<Value>(atom: AtomWithHistory<Value>): Value {
-  return historyStore.get(atom);
+export function getAtomValue<Value>(
+  atom: AtomWithHistory<Value>,
+  store: HistoryStore = historyStore
+): Value {
+  return store.get(atom);
 }
 
 /**
- * Function to set an atom's value in the history store directly
+ * Function to set an atom's value in a store directly
  */
-export function setAtomValue<Value>(atom: AtomWithHistory<Value>, value: Value): void {
-  historyStore.set(atom, value);
+export function setAtomValue<Value>(
+  atom: AtomWithHistory<Value>,
+  value: Value,
+  store: HistoryStore = historyStore
+): void {
+  store.set(atom, value);
 } 
\ No newline at end of file
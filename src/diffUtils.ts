@@ -2,40 +2,184 @@
  * Diff utilities for computing and applying differences between values
  */
 
-import type { Diff, ObjectDiff, ArrayDiff, ValueDiff } from './types';
+import type {
+  Diff,
+  DiffOptions,
+  DiffTypeHandler,
+  ObjectDiff,
+  ArrayDiff,
+  ArrayDiffItem,
+  ValueDiff,
+  MapDiff,
+  SetDiff,
+  TypeHandlerDiff
+} from './types';
+
+// Largest LCS table (old x new items left after trimming common ends) computed exactly
+const MAX_LCS_TABLE_SIZE = 1_000_000;
+
+// Registered type handlers by name, checked in registration order
+const typeHandlers = new Map<string, DiffTypeHandler>();
+
+// How a value is diffed
+type ValueKind = 'primitive' | 'custom' | 'date' | 'binary' | 'map' | 'set' | 'array' | 'object';
+
+/**
+ * Registers a handler that diffs, applies and reverses changes to values of
+ * its own type, e.g. Immutable.js records. Handlers are checked before the
+ * built-in types; a handler registered again under the same name replaces the old one.
+ * @param handler - The type handler
+ * @returns A function that unregisters the handler
+ */
+export function registerDiffTypeHandler<Value, TypeDiff>(handler: DiffTypeHandler<Value, TypeDiff>): () => void {
+  // Stored untyped: the handler is only given values its test accepted and diffs it created
+  const untypedHandler = handler as unknown as DiffTypeHandler;
+  typeHandlers.set(handler.name, untypedHandler);
+  return () => {
+    if (typeHandlers.get(handler.name) === untypedHandler) typeHandlers.delete(handler.name);
+  };
+}
+
+// Handler of a custom diff, which must still be registered to use the diff
+function getTypeHandler(diff: TypeHandlerDiff): DiffTypeHandler {
+  const handler = typeHandlers.get(diff.handler);
+  if (!handler) {
+    throw new Error(`No diff type handler registered as "${diff.handler}"`);
+  }
+  return handler;
+}
+
+// Finds the registered handler responsible for a value
+function findTypeHandler(value: unknown): DiffTypeHandler | undefined {
+  for (const handler of typeHandlers.values()) {
+    if (handler.test(value)) return handler;
+  }
+  return undefined;
+}
+
+function getValueKind(value: unknown): ValueKind {
+  if (!value || typeof value !== 'object') return 'primitive';
+  if (typeHandlers.size > 0 && findTypeHandler(value)) return 'custom';
+  if (value instanceof Date) return 'date';
+  if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) return 'binary';
+  if (value instanceof Map) return 'map';
+  if (value instanceof Set) return 'set';
+  if (Array.isArray(value)) return 'array';
+  return 'object';
+}
+
+// Compares the bytes of two typed arrays, DataViews or ArrayBuffers
+function isSameBinary(a: ArrayBufferView | ArrayBuffer, b: ArrayBufferView | ArrayBuffer): boolean {
+  const toBytes = (value: ArrayBufferView | ArrayBuffer) => ArrayBuffer.isView(value)
+    ? new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+    : new Uint8Array(value);
+  const aBytes = toBytes(a);
+  const bBytes = toBytes(b);
+  if (aBytes.length !== bBytes.length) return false;
+  for (let i = 0; i < aBytes.length; i++) {
+    if (aBytes[i] !== bBytes[i]) return false;
+  }
+  return true;
+}
+
+const hasOwn = (obj: object, key: string) => Object.prototype.hasOwnProperty.call(obj, key);
+
+// Shallow copy of a Map, Set or object that keeps its prototype
+function copyWithPrototype<T extends object>(value: T, copy: T): T {
+  const prototype = Object.getPrototypeOf(value);
+  if (Object.getPrototypeOf(copy) !== prototype) Object.setPrototypeOf(copy, prototype);
+  return copy;
+}
 
 /**
  * Creates a deep diff between two values
  * @param oldValue - The old value
  * @param newValue - The new value
+ * @param options - Diff options, e.g. how to identify array items
  * @returns The difference or null if no differences
  */
-export function createDiff(oldValue: unknown, newValue: unknown): Diff | null {
+export function createDiff(
+  oldValue: unknown,
+  newValue: unknown,
+  options: DiffOptions = {}
+): Diff | null {
   // Handle identity
   if (oldValue === newValue) return null;
 
-  // Handle primitive types or when one side is null/undefined
-  if (!oldValue || !newValue || 
-      typeof oldValue !== 'object' || 
-      typeof newValue !== 'object' || 
-      Array.isArray(oldValue) !== Array.isArray(newValue)) {
-    return {
-      type: 'value',
-      before: oldValue,
-      after: newValue
-    } as ValueDiff;
+  const kind = getValueKind(oldValue);
+  const valueDiff: ValueDiff = { type: 'value', before: oldValue, after: newValue };
+
+  // Handle primitive types, one side being null/undefined, and values of different kinds or classes
+  if (kind === 'primitive' ||
+      kind !== getValueKind(newValue) ||
+      Object.getPrototypeOf(oldValue) !== Object.getPrototypeOf(newValue)) {
+    return valueDiff;
   }
-  
-  // Handle arrays
-  if (Array.isArray(oldValue) && Array.isArray(newValue)) {
-    return createArrayDiff(oldValue, newValue);
+
+  switch (kind) {
+    case 'custom': {
+      const handler = findTypeHandler(oldValue)!;
+      if (findTypeHandler(newValue) !== handler) return valueDiff;
+      const diff = handler.diff(oldValue, newValue);
+      return diff === null ? null : { type: 'custom', handler: handler.name, diff };
+    }
+    case 'date':
+      return (oldValue as Date).getTime() === (newValue as Date).getTime() ? null : valueDiff;
+    case 'binary':
+      // Binary data is copied whole rather than diffed byte by byte
+      return isSameBinary(oldValue as ArrayBuffer, newValue as ArrayBuffer) ? null : valueDiff;
+    case 'map':
+      return createMapDiff(oldValue as Map<unknown, unknown>, newValue as Map<unknown, unknown>, options);
+    case 'set':
+      return createSetDiff(oldValue as Set<unknown>, newValue as Set<unknown>);
+    case 'array':
+      return createArrayDiff(oldValue as unknown[], newValue as unknown[], options);
+    default:
+      return createObjectDiff(
+        oldValue as Record<string, unknown>,
+        newValue as Record<string, unknown>,
+        options
+      );
   }
-  
-  // Handle objects
-  return createObjectDiff(
-    oldValue as Record<string, unknown>, 
-    newValue as Record<string, unknown>
-  );
+}
+
+/**
+ * Creates a diff between two Maps, diffing the values of keys both contain
+ */
+function createMapDiff(
+  oldMap: Map<unknown, unknown>,
+  newMap: Map<unknown, unknown>,
+  options: DiffOptions
+): MapDiff | null {
+  const changed: Array<[unknown, Diff]> = [];
+  const added: Array<[unknown, unknown]> = [];
+  const deleted: Array<[unknown, unknown]> = [];
+
+  oldMap.forEach((oldItem, key) => {
+    if (!newMap.has(key)) {
+      deleted.push([key, oldItem]);
+      return;
+    }
+    const childDiff = createDiff(oldItem, newMap.get(key), options);
+    if (childDiff) changed.push([key, childDiff]);
+  });
+  newMap.forEach((newItem, key) => {
+    if (!oldMap.has(key)) added.push([key, newItem]);
+  });
+
+  if (changed.length === 0 && added.length === 0 && deleted.length === 0) {
+    return null;
+  }
+  return { type: 'map', changed, added, deleted };
+}
+
+/**
+ * Creates a diff between two Sets
+ */
+function createSetDiff(oldSet: Set<unknown>, newSet: Set<unknown>): SetDiff | null {
+  const added = [...newSet].filter((item) => !oldSet.has(item));
+  const deleted = [...oldSet].filter((item) => !newSet.has(item));
+  return added.length > 0 || deleted.length > 0 ? { type: 'set', added, deleted } : null;
 }
 
 /**
@@ -43,18 +187,21 @@ export function createDiff(oldValue: unknown, newValue: unknown): Diff | null {
  */
 function createObjectDiff(
   oldObj: Record<string, unknown>, 
-  newObj: Record<string, unknown>
+  newObj: Record<string, unknown>,
+  options: DiffOptions
 ): ObjectDiff | null {
   const changed: Record<string, unknown> = {};
   const added: Record<string, unknown> = {};
   const deleted: string[] = [];
+  const deletedValues: Record<string, unknown> = {};
   
-  // Check for changed or deleted properties
-  for (const key in oldObj) {
-    if (!(key in newObj)) {
+  // Check for changed or deleted own properties
+  for (const key of Object.keys(oldObj)) {
+    if (!hasOwn(newObj, key)) {
       deleted.push(key);
+      deletedValues[key] = oldObj[key];
     } else if (newObj[key] !== oldObj[key]) {
-      const childDiff = createDiff(oldObj[key], newObj[key]);
+      const childDiff = createDiff(oldObj[key], newObj[key], options);
       if (childDiff) {
         changed[key] = childDiff;
       }
@@ -62,8 +209,8 @@ function createObjectDiff(
   }
   
   // Check for added properties
-  for (const key in newObj) {
-    if (!(key in oldObj)) {
+  for (const key of Object.keys(newObj)) {
+    if (!hasOwn(oldObj, key)) {
       added[key] = newObj[key];
     }
   }
@@ -79,38 +226,171 @@ function createObjectDiff(
     type: 'object',
     changed,
     added,
-    deleted
+    deleted,
+    deletedValues
   };
 }
 
 /**
- * Creates a diff between two arrays
+ * Finds matching index pairs of the longest common subsequence of two key
+ * lists. Common leading and trailing items are matched directly; when the
+ * remaining middle section is too large for an exact table it is left unmatched.
  */
-function createArrayDiff(oldArray: unknown[], newArray: unknown[]): ArrayDiff | null {
-  const items: ArrayDiff['items'] = [];
-  const maxLen = Math.max(oldArray.length, newArray.length);
-  let hasChanges = false;
+function matchCommonItems(oldKeys: unknown[], newKeys: unknown[]): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+  let start = 0;
+  let oldEnd = oldKeys.length;
+  let newEnd = newKeys.length;
+  
+  while (start < oldEnd && start < newEnd && oldKeys[start] === newKeys[start]) {
+    pairs.push([start, start]);
+    start++;
+  }
   
-  for (let i = 0; i < maxLen; i++) {
-    if (i >= oldArray.length) {
-      // Added item
-      items.push({ index: i, value: newArray[i], added: true });
-      hasChanges = true;
-    } else if (i >= newArray.length) {
-      // Removed item
-      items.push({ index: i, value: oldArray[i], removed: true });
-      hasChanges = true;
-    } else if (oldArray[i] !== newArray[i]) {
-      // Changed item
-      items.push({ 
-        index: i, 
-        value: newArray[i]
-      });
-      hasChanges = true;
+  const suffix: Array<[number, number]> = [];
+  while (oldEnd > start && newEnd > start && oldKeys[oldEnd - 1] === newKeys[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+    suffix.unshift([oldEnd, newEnd]);
+  }
+  
+  const rows = oldEnd - start;
+  const cols = newEnd - start;
+  if (rows > 0 && cols > 0 && rows * cols <= MAX_LCS_TABLE_SIZE) {
+    // lengths[i * (cols + 1) + j] = LCS length of old[start + i..] and new[start + j..]
+    const lengths = new Uint32Array((rows + 1) * (cols + 1));
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lengths[i * (cols + 1) + j] = oldKeys[start + i] === newKeys[start + j]
+          ? lengths[(i + 1) * (cols + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (cols + 1) + j], lengths[i * (cols + 1) + j + 1]);
+      }
+    }
+    
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < cols) {
+      if (oldKeys[start + i] === newKeys[start + j]) {
+        pairs.push([start + i, start + j]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * (cols + 1) + j] >= lengths[i * (cols + 1) + j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
     }
   }
   
-  return hasChanges ? { type: 'array', items } : null;
+  return pairs.concat(suffix);
+}
+
+/**
+ * Creates a diff between two arrays as a list of insert, remove, move and
+ * replace operations that are applied in order
+ */
+function createArrayDiff(
+  oldArray: unknown[],
+  newArray: unknown[],
+  options: DiffOptions
+): ArrayDiff | null {
+  const { getKey } = options;
+  const keyOf = (item: unknown): unknown => {
+    const key = getKey ? getKey(item) : undefined;
+    return key === undefined ? item : key;
+  };
+  const oldKeys = oldArray.map(keyOf);
+  const newKeys = newArray.map(keyOf);
+  
+  // Index of the matching item in the other array, or -1
+  const oldToNew: number[] = new Array(oldArray.length).fill(-1);
+  const newToOld: number[] = new Array(newArray.length).fill(-1);
+  const anchors = matchCommonItems(oldKeys, newKeys);
+  for (const [i, j] of anchors) {
+    oldToNew[i] = j;
+    newToOld[j] = i;
+  }
+  
+  // Items that left the common subsequence but still exist are moves
+  const unmatchedByKey = new Map<unknown, number[]>();
+  oldKeys.forEach((key, i) => {
+    if (oldToNew[i] !== -1) return;
+    const indices = unmatchedByKey.get(key);
+    if (indices) indices.push(i);
+    else unmatchedByKey.set(key, [i]);
+  });
+  const moved = new Set<number>();
+  newKeys.forEach((key, j) => {
+    if (newToOld[j] !== -1) return;
+    const i = unmatchedByKey.get(key)?.shift();
+    if (i === undefined) return;
+    oldToNew[i] = j;
+    newToOld[j] = i;
+    moved.add(i);
+  });
+  
+  // Without keys, leftover items between the same anchors are edits in place
+  if (!getKey) {
+    let prevI = -1;
+    let prevJ = -1;
+    for (const [anchorI, anchorJ] of [...anchors, [oldArray.length, newArray.length]]) {
+      const oldGap: number[] = [];
+      const newGap: number[] = [];
+      for (let i = prevI + 1; i < anchorI; i++) if (oldToNew[i] === -1) oldGap.push(i);
+      for (let j = prevJ + 1; j < anchorJ; j++) if (newToOld[j] === -1) newGap.push(j);
+      for (let k = 0; k < Math.min(oldGap.length, newGap.length); k++) {
+        oldToNew[oldGap[k]] = newGap[k];
+        newToOld[newGap[k]] = oldGap[k];
+      }
+      prevI = anchorI;
+      prevJ = anchorJ;
+    }
+  }
+  
+  const items: ArrayDiffItem[] = [];
+  
+  // Remove unmatched items, highest index first so lower indices stay valid
+  for (let i = oldArray.length - 1; i >= 0; i--) {
+    if (oldToNew[i] === -1) {
+      items.push({ op: 'remove', index: i, value: oldArray[i] });
+    }
+  }
+  
+  // Walk the new array, inserting new items and moving kept ones into place.
+  // `working` mirrors the array being patched, holding old indices (-1 for inserts).
+  const working: number[] = [];
+  oldToNew.forEach((j, i) => {
+    if (j !== -1) working.push(i);
+  });
+  const moveItem = (from: number, to: number) => {
+    const [index] = working.splice(from, 1);
+    working.splice(to, 0, index);
+    items.push({ op: 'move', from, to });
+  };
+  
+  for (let j = 0; j < newArray.length; j++) {
+    const i = newToOld[j];
+    if (i === -1) {
+      items.push({ op: 'insert', index: j, value: newArray[j] });
+      working.splice(j, 0, -1);
+      continue;
+    }
+    
+    // Send moved items that block this slot straight towards their own target
+    for (let guard = working.length; guard > 0 && working[j] !== i && moved.has(working[j]); guard--) {
+      moveItem(j, Math.min(oldToNew[working[j]], working.length - 1));
+    }
+    
+    const from = working.indexOf(i, j);
+    if (from !== j) {
+      moveItem(from, j);
+    }
+    if (oldArray[i] !== newArray[j]) {
+      items.push({ op: 'replace', index: j, value: newArray[j], oldValue: oldArray[i] });
+    }
+  }
+  
+  return items.length > 0 ? { type: 'array', items } : null;
 }
 
 /**
@@ -130,6 +410,19 @@ export function applyDiff<T>(value: T, diff: Diff): T {
     return applyArrayDiff(value as unknown[], diff) as unknown as T;
   }
   
+  // Handle Maps and Sets
+  if (diff.type === 'map' && value instanceof Map) {
+    return applyMapDiff(value, diff) as unknown as T;
+  }
+  if (diff.type === 'set' && value instanceof Set) {
+    return applySetDiff(value, diff) as unknown as T;
+  }
+  
+  // Handle values of registered types
+  if (diff.type === 'custom') {
+    return getTypeHandler(diff).apply(value, diff.diff) as T;
+  }
+  
   // Handle objects
   if (diff.type === 'object' && value !== null && typeof value === 'object') {
     return applyObjectDiff(value as Record<string, unknown>, diff) as unknown as T;
@@ -141,17 +434,17 @@ export function applyDiff<T>(value: T, diff: Diff): T {
 }
 
 /**
- * Applies an object diff
+ * Applies an object diff to a copy that keeps the object's prototype
  */
 function applyObjectDiff(
   obj: Record<string, unknown>,
   diff: ObjectDiff
 ): Record<string, unknown> {
-  const result = { ...obj };
+  const result = Object.assign(Object.create(Object.getPrototypeOf(obj)), obj) as Record<string, unknown>;
   
   // Apply changes
   for (const [key, childDiff] of Object.entries(diff.changed)) {
-    if (key in result) {
+    if (hasOwn(result, key)) {
       result[key] = applyDiff(result[key], childDiff as Diff);
     }
   }
@@ -170,35 +463,81 @@ function applyObjectDiff(
 }
 
 /**
- * Applies an array diff
+ * Applies a Map diff. Unchanged values are shared with the original Map.
+ */
+function applyMapDiff(map: Map<unknown, unknown>, diff: MapDiff): Map<unknown, unknown> {
+  const result = copyWithPrototype(map, new Map(map));
+  
+  for (const [key] of diff.deleted) {
+    result.delete(key);
+  }
+  for (const [key, childDiff] of diff.changed) {
+    if (result.has(key)) {
+      result.set(key, applyDiff(result.get(key), childDiff));
+    }
+  }
+  for (const [key, item] of diff.added) {
+    result.set(key, item);
+  }
+  
+  return result;
+}
+
+/**
+ * Applies a Set diff
+ */
+function applySetDiff(set: Set<unknown>, diff: SetDiff): Set<unknown> {
+  const result = copyWithPrototype(set, new Set(set));
+  diff.deleted.forEach((item) => result.delete(item));
+  diff.added.forEach((item) => result.add(item));
+  return result;
+}
+
+/**
+ * Applies an array diff, one operation after another
  */
 function applyArrayDiff(arr: unknown[], diff: ArrayDiff): unknown[] {
   // Create a copy of the array
   const result = [...arr];
   
-  // Process removals first (from highest index to lowest)
-  const removals = diff.items
-    .filter(item => item.removed)
-    .sort((a, b) => b.index - a.index);
-    
-  for (const item of removals) {
-    result.splice(item.index, 1);
-  }
-  
-  // Process additions and changes
   for (const item of diff.items) {
-    if (item.added) {
-      // Insert at specified index
-      result.splice(item.index, 0, item.value);
-    } else if (!item.removed && item.value !== undefined) {
-      // Replace value at index
-      result[item.index] = item.value;
+    switch (item.op) {
+      case 'insert':
+        result.splice(item.index, 0, item.value);
+        break;
+      case 'remove':
+        result.splice(item.index, 1);
+        break;
+      case 'replace':
+        result[item.index] = item.value;
+        break;
+      case 'move': {
+        const [moved] = result.splice(item.from, 1);
+        result.splice(item.to, 0, moved);
+        break;
+      }
     }
   }
   
   return result;
 }
 
+/**
+ * Reverses a single array operation
+ */
+function reverseArrayDiffItem(item: ArrayDiffItem): ArrayDiffItem {
+  switch (item.op) {
+    case 'insert':
+      return { op: 'remove', index: item.index, value: item.value };
+    case 'remove':
+      return { op: 'insert', index: item.index, value: item.value };
+    case 'replace':
+      return { op: 'replace', index: item.index, value: item.oldValue, oldValue: item.value };
+    case 'move':
+      return { op: 'move', from: item.to, to: item.from };
+  }
+}
+
 /**
  * Reverses a diff so it can be applied to undo a change
  */
@@ -212,14 +551,10 @@ export function reverseDiff(diff: Diff): Diff {
   }
   
   if (diff.type === 'array') {
+    // Operations are undone in reverse order
     return {
       type: 'array',
-      items: diff.items.map(item => ({
-        index: item.index,
-        value: item.value,
-        added: item.removed,
-        removed: item.added
-      }))
+      items: diff.items.map(reverseArrayDiffItem).reverse()
     };
   }
   
@@ -227,11 +562,11 @@ export function reverseDiff(diff: Diff): Diff {
     return {
       type: 'object',
       added: diff.deleted.reduce((obj, key) => {
-        // We can't know the original values of deleted properties
-        obj[key] = undefined as unknown;
+        obj[key] = diff.deletedValues[key];
         return obj;
       }, {} as Record<string, unknown>),
       deleted: Object.keys(diff.added),
+      deletedValues: { ...diff.added },
       changed: Object.entries(diff.changed).reduce((obj, [key, childDiff]) => {
         obj[key] = reverseDiff(childDiff as Diff);
         return obj;
@@ -239,5 +574,277 @@ export function reverseDiff(diff: Diff): Diff {
     };
   }
   
+  if (diff.type === 'map') {
+    return {
+      type: 'map',
+      changed: diff.changed.map(([key, childDiff]) => [key, reverseDiff(childDiff)]),
+      added: diff.deleted,
+      deleted: diff.added
+    };
+  }
+  
+  if (diff.type === 'set') {
+    return { type: 'set', added: diff.deleted, deleted: diff.added };
+  }
+  
+  if (diff.type === 'custom') {
+    return { type: 'custom', handler: diff.handler, diff: getTypeHandler(diff).reverse(diff.diff) };
+  }
+  
   throw new Error('Unknown diff type');
-} 
\ No newline at end of file
+}
+
+/**
+ * Checks whether an array operation undoes the one before it
+ */
+function isInverseArrayDiffItem(first: ArrayDiffItem, second: ArrayDiffItem): boolean {
+  switch (first.op) {
+    case 'insert':
+      return second.op === 'remove' && second.index === first.index && second.value === first.value;
+    case 'remove':
+      return second.op === 'insert' && second.index === first.index && second.value === first.value;
+    case 'replace':
+      return second.op === 'replace' && second.index === first.index && second.value === first.oldValue;
+    case 'move':
+      return second.op === 'move' && second.from === first.to && second.to === first.from;
+  }
+}
+
+/**
+ * Composes two array diffs. Operations already apply in sequence, so they are
+ * concatenated, cancelling operations that undo each other where the two meet.
+ */
+function composeArrayDiff(first: ArrayDiff, second: ArrayDiff): ArrayDiff | null {
+  const items = [...first.items];
+  let start = 0;
+  
+  while (items.length > 0 && start < second.items.length) {
+    const last = items[items.length - 1];
+    const next = second.items[start];
+    if (isInverseArrayDiffItem(last, next)) {
+      items.pop();
+    } else if (last.op === 'replace' && next.op === 'replace' && last.index === next.index) {
+      // Two edits of the same slot become one
+      items[items.length - 1] = { op: 'replace', index: last.index, value: next.value, oldValue: last.oldValue };
+    } else {
+      break;
+    }
+    start++;
+  }
+  
+  items.push(...second.items.slice(start));
+  return items.length > 0 ? { type: 'array', items } : null;
+}
+
+/**
+ * Composes two object diffs key by key
+ */
+function composeObjectDiff(first: ObjectDiff, second: ObjectDiff): ObjectDiff | null {
+  const changed: Record<string, unknown> = {};
+  const added: Record<string, unknown> = {};
+  const deleted: string[] = [];
+  const deletedValues: Record<string, unknown> = {};
+  
+  // Keys touched by the first diff, adjusted by what the second did to them
+  for (const [key, value] of Object.entries(first.added)) {
+    if (second.deleted.includes(key)) continue;
+    added[key] = hasOwn(second.changed, key) ? applyDiff(value, second.changed[key] as Diff) : value;
+  }
+  
+  for (const key of first.deleted) {
+    if (hasOwn(second.added, key)) {
+      const childDiff = createDiff(first.deletedValues[key], second.added[key]);
+      if (childDiff) changed[key] = childDiff;
+    } else {
+      deleted.push(key);
+      deletedValues[key] = first.deletedValues[key];
+    }
+  }
+  
+  for (const [key, childDiff] of Object.entries(first.changed)) {
+    if (second.deleted.includes(key)) {
+      deleted.push(key);
+      // The value before both diffs is the deleted value with the first change undone
+      deletedValues[key] = applyDiff(second.deletedValues[key], reverseDiff(childDiff as Diff));
+    } else if (hasOwn(second.changed, key)) {
+      const composed = composeDiff(childDiff as Diff, second.changed[key] as Diff);
+      if (composed) changed[key] = composed;
+    } else {
+      changed[key] = childDiff;
+    }
+  }
+  
+  // Keys only the second diff touched
+  const touched = new Set([...Object.keys(first.added), ...first.deleted, ...Object.keys(first.changed)]);
+  for (const [key, value] of Object.entries(second.added)) {
+    if (!touched.has(key)) added[key] = value;
+  }
+  for (const key of second.deleted) {
+    if (touched.has(key)) continue;
+    deleted.push(key);
+    deletedValues[key] = second.deletedValues[key];
+  }
+  for (const [key, childDiff] of Object.entries(second.changed)) {
+    if (!touched.has(key)) changed[key] = childDiff;
+  }
+  
+  if (Object.keys(changed).length === 0 && 
+      Object.keys(added).length === 0 && 
+      deleted.length === 0) {
+    return null;
+  }
+  
+  return {
+    type: 'object',
+    changed,
+    added,
+    deleted,
+    deletedValues
+  };
+}
+
+/**
+ * Composes two Map diffs key by key, like object diffs
+ */
+function composeMapDiff(first: MapDiff, second: MapDiff): MapDiff | null {
+  const secondChanged = new Map(second.changed);
+  const secondAdded = new Map(second.added);
+  const secondDeleted = new Map(second.deleted);
+  const changed: Array<[unknown, Diff]> = [];
+  const added: Array<[unknown, unknown]> = [];
+  const deleted: Array<[unknown, unknown]> = [];
+  
+  // Keys touched by the first diff, adjusted by what the second did to them
+  for (const [key, item] of first.added) {
+    if (secondDeleted.has(key)) continue;
+    const childDiff = secondChanged.get(key);
+    added.push([key, childDiff ? applyDiff(item, childDiff) : item]);
+  }
+  
+  for (const [key, item] of first.deleted) {
+    if (secondAdded.has(key)) {
+      const childDiff = createDiff(item, secondAdded.get(key));
+      if (childDiff) changed.push([key, childDiff]);
+    } else {
+      deleted.push([key, item]);
+    }
+  }
+  
+  for (const [key, childDiff] of first.changed) {
+    if (secondDeleted.has(key)) {
+      deleted.push([key, applyDiff(secondDeleted.get(key), reverseDiff(childDiff))]);
+    } else if (secondChanged.has(key)) {
+      const composed = composeDiff(childDiff, secondChanged.get(key)!);
+      if (composed) changed.push([key, composed]);
+    } else {
+      changed.push([key, childDiff]);
+    }
+  }
+  
+  // Keys only the second diff touched
+  const touched = new Set([...first.added, ...first.deleted, ...first.changed].map(([key]) => key));
+  added.push(...second.added.filter(([key]) => !touched.has(key)));
+  deleted.push(...second.deleted.filter(([key]) => !touched.has(key)));
+  changed.push(...second.changed.filter(([key]) => !touched.has(key)));
+  
+  if (changed.length === 0 && added.length === 0 && deleted.length === 0) {
+    return null;
+  }
+  return { type: 'map', changed, added, deleted };
+}
+
+/**
+ * Composes two Set diffs, cancelling items added by one and deleted by the other
+ */
+function composeSetDiff(first: SetDiff, second: SetDiff): SetDiff | null {
+  const secondAdded = new Set(second.added);
+  const secondDeleted = new Set(second.deleted);
+  const firstAdded = new Set(first.added);
+  const firstDeleted = new Set(first.deleted);
+  const added = [
+    ...first.added.filter((item) => !secondDeleted.has(item)),
+    ...second.added.filter((item) => !firstDeleted.has(item))
+  ];
+  const deleted = [
+    ...first.deleted.filter((item) => !secondAdded.has(item)),
+    ...second.deleted.filter((item) => !firstAdded.has(item))
+  ];
+  return added.length > 0 || deleted.length > 0 ? { type: 'set', added, deleted } : null;
+}
+
+/**
+ * Composes two diffs into one that is equivalent to applying `first` and then `second`
+ * @param first - The earlier diff
+ * @param second - The later diff, created against the value `first` produced
+ * @returns The combined difference or null if the two diffs cancel out
+ */
+export function composeDiff(first: Diff, second: Diff): Diff | null {
+  if (first.type === 'value' || second.type === 'value') {
+    // A value diff carries one full value, which lets the other side be rebuilt
+    const before = first.type === 'value'
+      ? first.before
+      : applyDiff((second as ValueDiff).before, reverseDiff(first));
+    const after = second.type === 'value' ? second.after : applyDiff((first as ValueDiff).after, second);
+    return createDiff(before, after) && { type: 'value', before, after };
+  }
+  
+  if (first.type === 'array' && second.type === 'array') {
+    return composeArrayDiff(first, second);
+  }
+  
+  if (first.type === 'object' && second.type === 'object') {
+    return composeObjectDiff(first, second);
+  }
+  
+  if (first.type === 'map' && second.type === 'map') {
+    return composeMapDiff(first, second);
+  }
+  
+  if (first.type === 'set' && second.type === 'set') {
+    return composeSetDiff(first, second);
+  }
+  
+  if (first.type === 'custom' && second.type === 'custom' && first.handler === second.handler) {
+    const { compose } = getTypeHandler(first);
+    if (compose) {
+      const diff = compose(first.diff, second.diff);
+      return diff === null ? null : { type: 'custom', handler: first.handler, diff };
+    }
+  }
+  
+  throw new Error(`Cannot compose a ${first.type} diff with a ${second.type} diff`);
+}
+
+/**
+ * Measures the size of a diff as the number of changes it records
+ */
+export function getDiffSize(diff: Diff): number {
+  if (diff.type === 'value') {
+    return 1;
+  }
+  
+  if (diff.type === 'array') {
+    return diff.items.length;
+  }
+  
+  if (diff.type === 'map') {
+    return diff.added.length + 
+      diff.deleted.length + 
+      diff.changed.reduce((size, [, childDiff]) => size + getDiffSize(childDiff), 0);
+  }
+  
+  if (diff.type === 'set') {
+    return diff.added.length + diff.deleted.length;
+  }
+  
+  if (diff.type === 'custom') {
+    return getTypeHandler(diff).size?.(diff.diff) ?? 1;
+  }
+  
+  return Object.keys(diff.added).length + 
+    diff.deleted.length + 
+    Object.values(diff.changed).reduce<number>(
+      (size, childDiff) => size + getDiffSize(childDiff as Diff), 
+      0
+    );
+}
@@ -0,0 +1,60 @@
+/**
+ * History Controller
+ *
+ * Framework-agnostic undo/redo controls for a store and scope, usable from
+ * keyboard shortcut services, menu handlers or tests without React
+ */
+
+import type { HistoryAtom, HistoryController, HistoryMetadata, HistoryScope, HistoryStore } from './types';
+import { defaultHistoryScope, getHistoryItemLabel, getHistoryManager, historyStore } from './historyManager';
+
+/**
+ * Create a controller for the history of a store
+ *
+ * @param store - The store holding the history (defaults to `historyStore`)
+ * @param scope - The history scope to control (defaults to the global scope)
+ * @returns Undo/redo actions and state getters
+ */
+export function createHistoryController(
+  store: HistoryStore = historyStore,
+  scope: HistoryScope = defaultHistoryScope
+): HistoryController {
+  const manager = getHistoryManager(store);
+
+  /**
+   * Groups multiple operations into a single history entry,
+   * optionally labelled (e.g. "Rename Layer")
+   */
+  const group = <T>(callback: () => T, label?: string, metadata?: HistoryMetadata): T => {
+    return manager.runGroupOperation(callback, scope, label === undefined && !metadata ? undefined : { label, metadata });
+  };
+
+  const getLastItem = (key: 'past' | 'future') => {
+    const items = store.get(scope.stackAtom)[key];
+    return items[items.length - 1];
+  };
+
+  return {
+    store,
+    scope,
+    undo: () => manager.undo(scope),
+    redo: () => manager.redo(scope),
+    clear: () => manager.clear(scope),
+    group,
+    canUndo: () => store.get(scope.stackAtom).past.length > 0,
+    canRedo: () => store.get(scope.stackAtom).future.length > 0,
+    undoLabel: () => {
+      const item = getLastItem('past');
+      return item && getHistoryItemLabel(item);
+    },
+    redoLabel: () => {
+      const item = getLastItem('future');
+      return item && getHistoryItemLabel(item);
+    },
+    breakCoalescing: () => manager.breakCoalescing(scope),
+    undoAtom: <Value>(atom: HistoryAtom<Value>) => manager.undoAtom(atom, scope),
+    redoAtom: <Value>(atom: HistoryAtom<Value>) => manager.redoAtom(atom, scope),
+    revertEntry: (index: number) => manager.revertEntry(index, scope),
+    subscribe: (listener) => store.sub(scope.stackAtom, listener)
+  };
+}
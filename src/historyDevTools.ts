@@ -0,0 +1,149 @@
+/**
+ * History DevTools
+ *
+ * Connects a history scope to the Redux DevTools extension. Every push, undo,
+ * redo, group and clear is reported as an action along with the values of the
+ * scope's atoms, and jumping to or skipping actions in DevTools drives the
+ * history manager.
+ */
+
+import type {
+  HistoryDevToolsOptions,
+  HistoryEntry,
+  HistoryItem,
+  HistoryStore,
+  ReduxDevToolsExtension,
+  ReduxDevToolsMessage
+} from './types';
+import { defaultHistoryScope, getHistoryItemOrigin, getHistoryManager, getRegistration } from './historyManager';
+
+// Summarize an entry for an action payload
+function describeEntry(entry: HistoryEntry) {
+  return { id: entry.id, diff: entry.diff, label: entry.label };
+}
+
+/**
+ * Report a history scope to Redux DevTools. Does nothing when the extension
+ * isn't installed.
+ * @returns A function that disconnects from DevTools
+ */
+export function connectHistoryDevTools(store: HistoryStore, options: HistoryDevToolsOptions = {}): () => void {
+  const scope = options.scope || defaultHistoryScope;
+  const extension = options.extension ?? (globalThis as { __REDUX_DEVTOOLS_EXTENSION__?: ReduxDevToolsExtension })
+    .__REDUX_DEVTOOLS_EXTENSION__;
+  if (!extension) return () => {};
+
+  const manager = getHistoryManager(store);
+  const devTools = extension.connect({ name: options.name || `jotai-history-global:${scope.id}` });
+
+  // Values of the scope's atoms by ID
+  const getState = () => {
+    const state: Record<string, unknown> = {};
+    scope.registry.forEach((_, id) => {
+      const registration = getRegistration(scope, id);
+      if (registration) state[id] = store.get(registration.atom);
+    });
+    return state;
+  };
+
+  // Origin of the latest past item after each action (null at the initial state), by
+  // action ID. Items rather than positions are kept, so actions survive evictions.
+  let actionItems: Array<HistoryItem | null> = [];
+  // Whether a DevTools command is being applied, whose changes aren't reported
+  let applyingCommand = false;
+
+  const getTopItem = () => {
+    const { past } = store.get(scope.stackAtom);
+    return past.length > 0 ? getHistoryItemOrigin(past[past.length - 1]) : null;
+  };
+
+  const init = () => {
+    actionItems = [getTopItem()];
+    devTools.init(getState());
+  };
+
+  const send = (type: string, payload: Record<string, unknown> = {}) => {
+    if (applyingCommand) return;
+    actionItems.push(getTopItem());
+    devTools.send({ type, ...payload }, getState());
+  };
+
+  // Move to the history position right after an action's item
+  const jumpToAction = (actionId: number) => {
+    const item = actionItems[actionId];
+    if (item === undefined) return;
+    const { past, future } = store.get(scope.stackAtom);
+    const timeline = [...past, ...[...future].reverse()];
+    const position = item === null ? 0 : timeline.findIndex((candidate) => getHistoryItemOrigin(candidate) === item) + 1;
+    if (item !== null && position === 0) {
+      console.warn(`Cannot jump to DevTools action ${actionId}, its history item no longer exists`);
+      return;
+    }
+    manager.goToHistoryPosition(position, scope);
+  };
+
+  // Revert an action's item on top of the current state (selective undo)
+  const skipAction = (actionId: number) => {
+    const item = actionItems[actionId];
+    const index = item
+      ? store.get(scope.stackAtom).past.findIndex((candidate) => getHistoryItemOrigin(candidate) === item)
+      : -1;
+    if (index === -1) {
+      console.warn(`Cannot skip DevTools action ${actionId}, its history item is not in the past stack`);
+      return;
+    }
+    const { conflicts } = manager.revertEntry(index, scope);
+    if (conflicts.length > 0) {
+      console.warn(`Cannot skip DevTools action ${actionId}, later changes touch the same values`, conflicts);
+    }
+  };
+
+  const handleMessage = (message: ReduxDevToolsMessage) => {
+    if (message.type !== 'DISPATCH' || !message.payload) return;
+    const { type, actionId, id } = message.payload;
+    if (type === 'COMMIT') {
+      init();
+      return;
+    }
+    if (type === 'TOGGLE_ACTION' && id !== undefined) {
+      // The revert is recorded, and reported, as a new change
+      skipAction(id);
+      return;
+    }
+    if ((type === 'JUMP_TO_ACTION' || type === 'JUMP_TO_STATE') && actionId !== undefined) {
+      applyingCommand = true;
+      try {
+        jumpToAction(actionId);
+      } finally {
+        applyingCommand = false;
+      }
+    }
+  };
+
+  const unsubscribers = [
+    manager.onPush((event) => {
+      // Entries of a group are reported once the group commits
+      if (event.grouped) return;
+      send(`push ${event.id}`, describeEntry(event.entry));
+    }, scope),
+    manager.onGroupCommit((event) => {
+      send('group', { label: event.label, entries: event.entries.map(describeEntry) });
+    }, scope),
+    manager.onUndo((event) => {
+      send('undo', { label: event.label, entries: event.entries.map(describeEntry) });
+    }, scope),
+    manager.onRedo((event) => {
+      send('redo', { label: event.label, entries: event.entries.map(describeEntry) });
+    }, scope),
+    manager.onClear(() => send('clear'), scope)
+  ];
+
+  init();
+  const unsubscribeDevTools = devTools.subscribe(handleMessage);
+
+  return () => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+    if (typeof unsubscribeDevTools === 'function') unsubscribeDevTools();
+    devTools.unsubscribe?.();
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * History Hotkeys
+ *
+ * Binds undo/redo keyboard shortcuts to a history controller
+ */
+
+import type { HistoryController, HistoryHotkeyBindings, HistoryHotkeysOptions } from './types';
+
+// Shortcuts used when no bindings are given. `mod` is Cmd on Mac and Ctrl elsewhere.
+export const DEFAULT_HISTORY_HOTKEYS: Required<HistoryHotkeyBindings> = {
+  undo: ['mod+z'],
+  redo: ['mod+shift+z', 'ctrl+y']
+};
+
+// Input types without native text editing (and so without native undo)
+const NON_TEXT_INPUT_TYPES = new Set([
+  'button', 'checkbox', 'color', 'file', 'hidden', 'image', 'radio', 'range', 'reset', 'submit'
+]);
+
+interface ParsedHotkey {
+  key: string;
+  ctrl: boolean;
+  meta: boolean;
+  shift: boolean;
+  alt: boolean;
+}
+
+/**
+ * Parses a shortcut such as "mod+shift+z" for the current platform
+ */
+function parseHotkey(hotkey: string, isMac: boolean): ParsedHotkey {
+  const parts = hotkey.toLowerCase().split('+').map((part) => part.trim());
+  const has = (modifier: string) => parts.includes(modifier);
+  return {
+    key: parts[parts.length - 1],
+    ctrl: has('ctrl') || has('control') || (has('mod') && !isMac),
+    meta: has('meta') || has('cmd') || (has('mod') && isMac),
+    shift: has('shift'),
+    alt: has('alt') || has('option')
+  };
+}
+
+/**
+ * Checks whether a keyboard event matches a parsed shortcut exactly
+ */
+function matchesHotkey(event: KeyboardEvent, hotkey: ParsedHotkey): boolean {
+  return typeof event.key === 'string' &&
+    event.key.toLowerCase() === hotkey.key &&
+    !!event.ctrlKey === hotkey.ctrl &&
+    !!event.metaKey === hotkey.meta &&
+    !!event.shiftKey === hotkey.shift &&
+    !!event.altKey === hotkey.alt;
+}
+
+/**
+ * Checks whether an event target edits text itself, and so has its own undo
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  const element = target as (HTMLElement & { type?: string }) | null;
+  if (!element || typeof element.tagName !== 'string') return false;
+  if (element.isContentEditable) return true;
+
+  const tagName = element.tagName.toUpperCase();
+  if (tagName === 'TEXTAREA' || tagName === 'SELECT') return true;
+  return tagName === 'INPUT' && !NON_TEXT_INPUT_TYPES.has((element.type || 'text').toLowerCase());
+}
+
+// Detect Apple platforms, where `mod` means Cmd
+const detectMac = (): boolean => {
+  if (typeof navigator === 'undefined') return false;
+  return /Mac|iPhone|iPad|iPod/.test(navigator.platform || navigator.userAgent);
+};
+
+/**
+ * Listen for undo/redo shortcuts and run them on a controller
+ *
+ * @param controller - The history controller to drive
+ * @param options - Bindings, target and ignore rules
+ * @returns A function that removes the listener
+ */
+export function bindHistoryHotkeys(
+  controller: HistoryController,
+  options: HistoryHotkeysOptions = {}
+): () => void {
+  const target = options.target === undefined
+    ? (typeof window === 'undefined' ? null : window)
+    : options.target;
+  if (!target) return () => {};
+
+  const isMac = options.isMac ?? detectMac();
+  const parse = (hotkeys: string[] | undefined, fallback: string[]) =>
+    (hotkeys || fallback).map((hotkey) => parseHotkey(hotkey, isMac));
+  const undoHotkeys = parse(options.bindings?.undo, DEFAULT_HISTORY_HOTKEYS.undo);
+  const redoHotkeys = parse(options.bindings?.redo, DEFAULT_HISTORY_HOTKEYS.redo);
+
+  const { ignoreEditable = true, preventDefault = true } = options;
+  const shouldIgnore = typeof ignoreEditable === 'function'
+    ? ignoreEditable
+    : (eventTarget: EventTarget | null) => ignoreEditable && isEditableTarget(eventTarget);
+
+  const listener = (event: Event) => {
+    const keyboardEvent = event as KeyboardEvent;
+    if (keyboardEvent.defaultPrevented || shouldIgnore(keyboardEvent.target)) return;
+
+    const action = undoHotkeys.some((hotkey) => matchesHotkey(keyboardEvent, hotkey))
+      ? controller.undo
+      : redoHotkeys.some((hotkey) => matchesHotkey(keyboardEvent, hotkey))
+        ? controller.redo
+        : null;
+    if (!action) return;
+
+    if (preventDefault) keyboardEvent.preventDefault();
+    action();
+  };
+
+  target.addEventListener('keydown', listener);
+  return () => target.removeEventListener('keydown', listener);
+}
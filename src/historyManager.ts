@@ -1,167 +1,1801 @@
 /**
  * History Manager
  * 
- * Manages a global history stack for tracking state changes across atoms
+ * Manages history stacks for tracking state changes across atoms. Atoms share
+ * the global default scope unless they are assigned their own scope.
  */
 
-import { atom } from 'jotai';
-import { createStore } from 'jotai/vanilla';
-import type { AtomWithHistory, HistoryEntry, HistoryStack } from './types';
-import { createDiff } from './diffUtils';
+import { atom, getDefaultStore } from 'jotai/vanilla';
+import type { PrimitiveAtom } from 'jotai/vanilla';
+import type {
+  AtomWithHistory,
+  Diff,
+  JsonPatchOperation,
+  HistoryAtomRegistration,
+  HistoryAtomRegistrationOptions,
+  HistoryBranch,
+  HistoryConflict,
+  GroupHistoryOperation,
+  HistoryAtom,
+  HistoryDirection,
+  HistoryEntry,
+  HistoryEntryDetails,
+  HistoryEventBase,
+  HistoryEventListener,
+  HistoryEventMap,
+  HistoryEventType,
+  HistoryHooks,
+  HistoryItem,
+  HistoryManager,
+  HistoryMetadata,
+  HistoryMiddleware,
+  HistoryMiddlewareContext,
+  HistoryPatchHandlers,
+  HistoryRevertResult,
+  HistoryScope,
+  HistoryScopeOptions,
+  HistoryStack,
+  HistoryStore,
+  HistoryStoreAccess,
+  HistorySyncChange,
+  PushToHistoryOptions,
+  SetWithoutHistoryOptions,
+  ValueDiff
+} from './types';
+import { applyDiff, composeDiff, createDiff, getDiffSize, reverseDiff } from './diffUtils';
+import { applyJsonPatch, invertJsonPatch, toJsonPatch } from './jsonPatch';
 
 // Default history limit per atom
 const DEFAULT_HISTORY_LIMIT = 50;
 
-// Create a global store for history
-export const historyStore = createStore();
+// Default number of entries per atom between checkpoints
+const DEFAULT_CHECKPOINT_INTERVAL = 20;
+
+// Default diff size (see getDiffSize) above which full values are stored
+const DEFAULT_CHECKPOINT_THRESHOLD = 20;
+
+// Store used when no other store is given. This is Jotai's default store, so
+// atoms used without a Provider and the history recorded for them line up.
+export const historyStore = getDefaultStore();
+
+// Approximate sizes of values in bytes, used by the default size estimator
+const PRIMITIVE_SIZE = 8;
+const CHAR_SIZE = 2;
+
+/**
+ * Estimate the memory used by a history item in bytes by walking its values.
+ * The result is approximate; pass a custom `estimateSize` to a scope for accuracy.
+ */
+export function estimateHistoryItemSize(item: HistoryItem): number {
+  const seen = new Set<object>();
+  const measure = (value: unknown): number => {
+    if (typeof value === 'string') return value.length * CHAR_SIZE;
+    if (value === null || typeof value !== 'object') return PRIMITIVE_SIZE;
+    if (seen.has(value)) return PRIMITIVE_SIZE;
+    seen.add(value);
+
+    if (value instanceof Map) {
+      return [...value].reduce((size, [key, child]) => size + measure(key) + measure(child), PRIMITIVE_SIZE);
+    }
+    if (value instanceof Set) {
+      return [...value].reduce((size, child) => size + measure(child), PRIMITIVE_SIZE);
+    }
+    return Object.entries(value).reduce(
+      (size, [key, child]) => size + key.length * CHAR_SIZE + measure(child),
+      PRIMITIVE_SIZE
+    );
+  };
+  return measure(item);
+}
+
+// Number of scopes created without an ID
+let derivedScopeCount = 0;
+
+/**
+ * Create an independent history scope with its own undo stack, group
+ * tracking and atom registry
+ * @param options - Optional scope ID, default history limit and checkpoint policy.
+ *   Scopes without an ID are numbered in creation order (`scope-1`, `scope-2`, ...),
+ *   so their IDs, and the IDs derived from them, stay the same across reloads.
+ */
+export function createHistoryScope(options: HistoryScopeOptions = {}): HistoryScope {
+  return {
+    id: options.id || `scope-${++derivedScopeCount}`,
+    historyLimit: options.historyLimit || DEFAULT_HISTORY_LIMIT,
+    branching: options.branching || false,
+    maxEntries: options.maxEntries,
+    maxBytes: options.maxBytes,
+    estimateSize: options.estimateSize || estimateHistoryItemSize,
+    checkpointInterval: options.checkpointInterval ?? DEFAULT_CHECKPOINT_INTERVAL,
+    checkpointThreshold: options.checkpointThreshold ?? DEFAULT_CHECKPOINT_THRESHOLD,
+    stackAtom: atom<HistoryStack>({
+      past: [],
+      future: []
+    }),
+    groupEntriesAtom: atom<HistoryEntry[] | null>(null),
+    groupFramesAtom: atom<number[]>([]),
+    coalescingEntryAtom: atom<HistoryEntry | null>(null),
+    registry: new Map(),
+    registrationListeners: new Set(),
+    requireIds: options.requireIds || false,
+    duplicateIds: options.duplicateIds || 'warn',
+    removedIds: new Set(),
+    hooksAtom: atom<HistoryHooks | null>(null)
+  };
+}
+
+// Counter making generated IDs unique within a session
+let idCounter = 0;
+
+// Helper to generate unique IDs, e.g. for branches and sync clients
+export const generateId = (): string => {
+  idCounter++;
+  return `${Date.now().toString(36)}-${idCounter.toString(36)}-${Math.random().toString(36).substring(2, 9)}`;
+};
+
+// Number of atoms created without an ID in each scope
+const derivedIdCounts = new WeakMap<HistoryScope, number>();
+
+/**
+ * Get the ID of an atom being created: the given ID, or one derived from the
+ * scope and the order in which the scope's atoms without an ID were created.
+ * Derived IDs stay the same across reloads as long as that order does, but not
+ * across hot module reloads, which create atoms again without resetting the count.
+ * @throws If the scope requires IDs and none was given
+ */
+export function resolveHistoryAtomId(
+  id: string | undefined,
+  scope: HistoryScope = defaultHistoryScope
+): string {
+  if (id) return id;
+  if (scope.requireIds) {
+    throw new Error(`Atoms in history scope "${scope.id}" must be given an id`);
+  }
+  const count = (derivedIdCounts.get(scope) || 0) + 1;
+  derivedIdCounts.set(scope, count);
+  return `${scope.id}:${count}`;
+}
+
+// Scope used by atoms and hooks that don't specify one
+export const defaultHistoryScope = createHistoryScope({ id: 'global' });
 
 // Global history stack atom
-export const historyStackAtom = atom<HistoryStack>({
-  past: [],
-  future: []
-});
+export const historyStackAtom = defaultHistoryScope.stackAtom;
 
 // Flag to track if we're currently in the middle of an undo/redo operation
 // This prevents recording history during undo/redo operations
 export const isHistoryOperationInProgressAtom = atom<boolean>(false);
 
-// Current group operation tracking
-export const currentGroupOperationAtom = atom<HistoryEntry[] | null>(null);
-export const isGroupOperationInProgressAtom = atom<boolean>(false);
+// Number of pauseHistory calls not yet resumed. Changes aren't recorded while it's above zero.
+export const historyPauseCountAtom = atom(0);
 
-// Registry to keep track of all atoms with history - using Map for O(1) lookups
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const atomRegistry = new Map<string, AtomWithHistory<any>>();
+// Current group operation tracking for the default scope
+export const currentGroupOperationAtom = defaultHistoryScope.groupEntriesAtom;
+
+// Start offsets into the current group's entries, one per nested group level
+export const groupFramesAtom = defaultHistoryScope.groupFramesAtom;
+export const isGroupOperationInProgressAtom = atom((get) => get(groupFramesAtom).length > 0);
+
+// Number of atoms unregistered from each scope so far, and the number each
+// store has dropped from its stacks
+const removalCounts = new WeakMap<HistoryScope, number>();
+const purgedCountAtoms = new WeakMap<HistoryScope, PrimitiveAtom<number>>();
+
+// Remove a registration, so stores drop the entries of its atom from their stacks
+const removeRegistration = (scope: HistoryScope, id: string): void => {
+  scope.registry.delete(id);
+  scope.removedIds.add(id);
+  removalCounts.set(scope, (removalCounts.get(scope) || 0) + 1);
+};
+
+// Unregisters atoms once they are garbage-collected. Held values don't reference
+// the atom, only its registration, which holds the atom weakly.
+const atomFinalizer = typeof FinalizationRegistry === 'undefined'
+  ? null
+  : new FinalizationRegistry<{ scope: HistoryScope; id: string; registration: HistoryAtomRegistration }>(
+    ({ scope, id, registration }) => {
+      if (scope.registry.get(id) === registration) removeRegistration(scope, id);
+    }
+  );
 
 /**
- * Register an atom with the history system
+ * Register an atom with the history system. Registering another atom with an
+ * ID already in use replaces the old atom (as hot module reload does), keeping
+ * the ID's history; the scope's `duplicateIds` policy decides whether that
+ * warns or throws.
  * @param atom - The atom to register
+ * @param scope - The scope whose registry the atom joins
+ * @param options - Optional patch handlers used to undo/redo custom diffs, the atom's history limit
+ *   and the atom holding its value
  */
-export function registerHistoryAtom<Value>(atom: AtomWithHistory<Value>): void {
-  atomRegistry.set(atom.id, atom);
+export function registerHistoryAtom<Value>(
+  atom: AtomWithHistory<Value>,
+  scope: HistoryScope = defaultHistoryScope,
+  options: HistoryAtomRegistrationOptions<Value> = {}
+): void {
+  const previous = getRegistration(scope, atom.id);
+  if (previous && previous.atom !== atom && scope.duplicateIds !== 'replace') {
+    const message = `Atom id "${atom.id}" is already registered in history scope "${scope.id}"`;
+    if (scope.duplicateIds === 'error') throw new Error(message);
+    console.warn(`${message}; the new atom replaces the old one`);
+  }
+
+  const ref = typeof WeakRef === 'undefined' ? { deref: () => atom } : new WeakRef(atom);
+  const registration: HistoryAtomRegistration = {
+    get atom() {
+      return ref.deref()!;
+    },
+    patch: options.patch as HistoryPatchHandlers['patch'],
+    inversePatch: options.inversePatch as HistoryPatchHandlers['inversePatch'],
+    historyLimit: options.historyLimit,
+    state: options.state as PrimitiveAtom<unknown> | undefined
+  };
+  scope.registry.set(atom.id, registration);
+  scope.removedIds.delete(atom.id);
+  atomFinalizer?.register(atom, { scope, id: atom.id, registration });
+  scope.registrationListeners.forEach((listener) => listener(registration));
 }
 
 /**
- * Unregister an atom from the history system
+ * Unregister an atom from the history system. Its entries are dropped from the
+ * history of every store the next time that store's history is used.
  * @param atom - The atom to unregister
+ * @param scope - The scope the atom was registered with
  */
-export function unregisterHistoryAtom<Value>(atom: AtomWithHistory<Value>): void {
-  atomRegistry.delete(atom.id);
+export function unregisterHistoryAtom<Value>(
+  atom: HistoryAtom<Value>,
+  scope: HistoryScope = defaultHistoryScope
+): void {
+  // An atom replaced by a newer one with the same ID leaves the ID registered
+  if (scope.registry.get(atom.id)?.atom !== atom) return;
+  removeRegistration(scope, atom.id);
+}
+
+/**
+ * Look up the registration of an atom by ID, skipping atoms that were
+ * garbage-collected but not yet unregistered
+ */
+export function getRegistration(
+  scope: HistoryScope,
+  id: string
+): HistoryAtomRegistration | undefined {
+  const registration = scope.registry.get(id);
+  return registration?.atom ? registration : undefined;
 }
 
 /**
  * Find an atom by ID in the registry - O(1) lookup with Map
  */
+export function getAtomById(
+  id: string,
+  scope: HistoryScope = defaultHistoryScope
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export function getAtomById(id: string): AtomWithHistory<any> | undefined {
-  return atomRegistry.get(id);
+): AtomWithHistory<any> | undefined {
+  return getRegistration(scope, id)?.atom;
 }
 
-// Helper to generate unique IDs for atoms if not provided
-export const generateId = (): string => {
-  return Math.random().toString(36).substring(2, 9);
+// Drop entries rejected by `keep` from a line, returning the index in `items` of each kept item
+const purgeItems = (
+  items: HistoryItem[],
+  keep: (entry: HistoryEntry) => boolean
+): { items: HistoryItem[]; origins: number[] } => {
+  const kept: HistoryItem[] = [];
+  const origins: number[] = [];
+  items.forEach((item, index) => {
+    let purged: HistoryItem | null = item;
+    if (!isGroupHistoryOperation(item)) {
+      if (!keep(item)) purged = null;
+    } else {
+      const operations = item.operations.filter(keep);
+      if (operations.length === 0) purged = null;
+      else if (operations.length < item.operations.length) purged = { ...item, operations };
+    }
+    if (!purged) return;
+    kept.push(purged);
+    origins.push(index);
+  });
+  return { items: kept, origins };
+};
+
+// Drop entries from branches, shifting their forks. Emptied branches hand their
+// own branches to the line they forked off.
+const purgeBranches = (
+  branches: HistoryBranch[],
+  mapIndex: (index: number) => number,
+  keep: (entry: HistoryEntry) => boolean
+): HistoryBranch[] => {
+  return branches.flatMap((branch) => {
+    const forkIndex = mapIndex(branch.forkIndex);
+    const { items, origins } = purgeItems(branch.items, keep);
+    const nested = purgeBranches(
+      branch.branches,
+      (index) => forkIndex + origins.filter((origin) => origin < index - branch.forkIndex).length,
+      keep
+    );
+    return items.length > 0 ? [{ ...branch, forkIndex, items, branches: nested }] : nested;
+  });
+};
+
+// Drop entries rejected by `keep` from the stacks and branches
+const purgeStack = (stack: HistoryStack, keep: (entry: HistoryEntry) => boolean): HistoryStack => {
+  const { past, future, branches } = stack;
+  const timeline = purgeItems([...past, ...[...future].reverse()], keep);
+  const pastSize = timeline.origins.filter((origin) => origin < past.length).length;
+  const purged: HistoryStack = {
+    past: timeline.items.slice(0, pastSize),
+    future: timeline.items.slice(pastSize).reverse()
+  };
+  if (branches) {
+    purged.branches = purgeBranches(
+      branches,
+      (index) => timeline.origins.filter((origin) => origin < index).length,
+      keep
+    );
+  }
+  return purged;
+};
+
+/**
+ * Read the stacks of a scope, first dropping the entries of atoms unregistered
+ * since this store last did so
+ */
+const readHistoryStack = (store: HistoryStoreAccess, scope: HistoryScope): HistoryStack => {
+  const stack = store.get(scope.stackAtom);
+  const removals = removalCounts.get(scope) || 0;
+  let purgedCountAtom = purgedCountAtoms.get(scope);
+  if (!purgedCountAtom) {
+    purgedCountAtom = atom(0);
+    purgedCountAtoms.set(scope, purgedCountAtom);
+  }
+  if (store.get(purgedCountAtom) === removals) return stack;
+  store.set(purgedCountAtom, removals);
+
+  const purged = purgeStack(stack, (entry) => !scope.removedIds.has(entry.id));
+  store.set(scope.stackAtom, purged);
+  return purged;
+};
+
+// Labels and metadata of the withLabel calls in progress, innermost last
+const activeDetails: HistoryEntryDetails[] = [];
+
+/**
+ * Run a callback and attach a label and metadata to every change it records.
+ * If the callback returns a promise, changes are labelled until it settles.
+ * @param label - Label such as "Rename Layer", shown in undo/redo menus
+ * @param callback - The callback making the changes
+ * @param metadata - Optional arbitrary data stored with the changes
+ */
+export const withLabel = <T>(
+  label: string,
+  callback: () => T,
+  metadata?: HistoryMetadata
+): T => {
+  const details: HistoryEntryDetails = { label, metadata };
+  const release = () => {
+    activeDetails.splice(activeDetails.lastIndexOf(details), 1);
+  };
+
+  activeDetails.push(details);
+  let result: T;
+  try {
+    result = callback();
+  } catch (error) {
+    release();
+    throw error;
+  }
+
+  if (result instanceof Promise) {
+    return result.finally(release) as unknown as T;
+  }
+  release();
+  return result;
+};
+
+// Copy a label and metadata onto a history item
+const applyDetails = (item: HistoryItem, details: HistoryEntryDetails | undefined): void => {
+  if (details?.label !== undefined) item.label = details.label;
+  if (details?.metadata !== undefined) item.metadata = details.metadata;
+};
+
+// Get the label of a history item, falling back to the first labelled entry of a group
+export const getHistoryItemLabel = (item: HistoryItem): string | undefined => {
+  if (item.label !== undefined || !isGroupHistoryOperation(item)) return item.label;
+  return item.operations.find((entry) => entry.label !== undefined)?.label;
+};
+
+// Get the event listeners and middleware of a scope, creating them on first use
+const getHistoryHooks = (store: HistoryStoreAccess, scope: HistoryScope): HistoryHooks => {
+  let hooks = store.get(scope.hooksAtom);
+  if (!hooks) {
+    hooks = {
+      listeners: {
+        push: new Set(),
+        undo: new Set(),
+        redo: new Set(),
+        clear: new Set(),
+        evict: new Set(),
+        groupCommit: new Set()
+      },
+      middleware: []
+    };
+    store.set(scope.hooksAtom, hooks);
+  }
+  return hooks;
+};
+
+/**
+ * Listen to one type of history event of a scope
+ * @returns A function removing the listener
+ */
+export const onHistoryEvent = <Type extends HistoryEventType>(
+  store: HistoryStoreAccess,
+  type: Type,
+  listener: HistoryEventListener<Type>,
+  scope: HistoryScope = defaultHistoryScope
+): (() => void) => {
+  const listeners = getHistoryHooks(store, scope).listeners[type];
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Notify the listeners of an event, adding the scope and its current stack sizes
+const emitHistoryEvent = <Type extends HistoryEventType>(
+  store: HistoryStoreAccess,
+  scope: HistoryScope,
+  type: Type,
+  event: Omit<HistoryEventMap[Type], keyof HistoryEventBase | 'type'>
+): void => {
+  const listeners = store.get(scope.hooksAtom)?.listeners[type];
+  if (!listeners || listeners.size === 0) return;
+
+  const { past, future } = store.get(scope.stackAtom);
+  const payload = {
+    type,
+    ...event,
+    scope,
+    pastSize: past.length,
+    futureSize: future.length
+  } as unknown as HistoryEventMap[Type];
+  listeners.forEach((listener) => listener(payload));
+};
+
+// Payload shared by events reporting a whole history item
+const describeHistoryItem = <Item extends HistoryItem>(item: Item) => ({
+  item,
+  entries: flattenHistoryItems([item]),
+  label: getHistoryItemLabel(item)
+});
+
+/**
+ * Add a middleware that sees every entry of a scope before it is recorded
+ * @returns A function removing the middleware
+ */
+export const addHistoryMiddleware = (
+  store: HistoryStoreAccess,
+  middleware: HistoryMiddleware,
+  scope: HistoryScope = defaultHistoryScope
+): (() => void) => {
+  const hooks = getHistoryHooks(store, scope);
+  hooks.middleware = [...hooks.middleware, middleware];
+  return () => {
+    hooks.middleware = hooks.middleware.filter((other) => other !== middleware);
+  };
+};
+
+// Pass an entry through the middleware chain, returning null if it was vetoed
+const runHistoryMiddleware = (
+  store: HistoryStoreAccess,
+  entry: HistoryEntry,
+  context: HistoryMiddlewareContext
+): HistoryEntry | null => {
+  const middleware = store.get(context.scope.hooksAtom)?.middleware || [];
+  const dispatch = (index: number, current: HistoryEntry): HistoryEntry | null => {
+    if (index >= middleware.length) return current;
+    return middleware[index](current, (next) => dispatch(index + 1, next), context);
+  };
+  return dispatch(0, entry);
+};
+
+// Cached item sizes, so budgets don't re-measure the whole stack on every change
+const itemSizes = new WeakMap<HistoryItem, number>();
+
+const getItemSize = (item: HistoryItem, scope: HistoryScope): number => {
+  let size = itemSizes.get(item);
+  if (size === undefined) {
+    size = scope.estimateSize(item);
+    itemSizes.set(item, size);
+  }
+  return size;
+};
+
+/**
+ * Evict old history so every given atom keeps at most its own number of entries
+ * and the scope stays within its entry and size budgets. An atom over its limit
+ * loses its oldest entries; a group losing entries stays one item. Budgets
+ * evict whole items from the oldest, never splitting a group, and always keep
+ * the newest item.
+ * @param past - The past stack including the newly recorded item
+ * @param limits - History limit of each atom that just recorded changes
+ * @returns The trimmed past stack, and the index in `past` of each kept item
+ */
+const enforceHistoryLimits = (
+  past: HistoryItem[],
+  limits: Map<string, number>,
+  scope: HistoryScope
+): { past: HistoryItem[]; origins: number[] } => {
+  let result = past;
+  let origins = past.map((_, index) => index);
+
+  const counts = new Map<string, number>();
+  for (const { id } of flattenHistoryItems(result)) {
+    counts.set(id, (counts.get(id) || 0) + 1);
+  }
+  limits.forEach((limit, id) => {
+    let excess = (counts.get(id) || 0) - limit;
+    if (excess <= 0) return;
+
+    const trimItem = (item: HistoryItem): HistoryItem | null => {
+      if (excess <= 0) return item;
+      if (!isGroupHistoryOperation(item)) {
+        if (item.id !== id) return item;
+        excess--;
+        return null;
+      }
+      const operations = item.operations.filter((entry) => {
+        if (excess <= 0 || entry.id !== id) return true;
+        excess--;
+        return false;
+      });
+      if (operations.length === item.operations.length) return item;
+      return operations.length > 0 ? { ...item, operations } : null;
+    };
+
+    const kept: HistoryItem[] = [];
+    const keptOrigins: number[] = [];
+    result.forEach((item, index) => {
+      const trimmed = trimItem(item);
+      if (!trimmed) return;
+      kept.push(trimmed);
+      keptOrigins.push(origins[index]);
+    });
+    result = kept;
+    origins = keptOrigins;
+  });
+
+  const { maxEntries, maxBytes } = scope;
+  if (maxEntries === undefined && maxBytes === undefined) return { past: result, origins };
+
+  let entryCount = flattenHistoryItems(result).length;
+  let byteCount = maxBytes === undefined ? 0 : result.reduce((size, item) => size + getItemSize(item, scope), 0);
+  let start = 0;
+  while (
+    start < result.length - 1 &&
+    ((maxEntries !== undefined && entryCount > maxEntries) || (maxBytes !== undefined && byteCount > maxBytes))
+  ) {
+    const item = result[start];
+    entryCount -= isGroupHistoryOperation(item) ? item.operations.length : 1;
+    if (maxBytes !== undefined) byteCount -= getItemSize(item, scope);
+    start++;
+  }
+  return { past: result.slice(start), origins: origins.slice(start) };
+};
+
+/**
+ * Shift the fork points of branches. Nested branches keep their offset from
+ * the branch they fork off.
+ * @param mapIndex - Maps a fork index on the current line to its new index
+ */
+const remapBranches = (branches: HistoryBranch[], mapIndex: (index: number) => number): HistoryBranch[] => {
+  return branches.map((branch) => {
+    const forkIndex = mapIndex(branch.forkIndex);
+    return {
+      ...branch,
+      forkIndex,
+      branches: remapBranches(branch.branches, (index) => forkIndex + index - branch.forkIndex)
+    };
+  });
+};
+
+// Move the part of a line after `forkIndex` into a new branch, together with
+// the branches forking off that part
+const splitLine = (
+  items: HistoryItem[],
+  branches: HistoryBranch[],
+  forkIndex: number
+): HistoryBranch[] => {
+  const tail = items.slice(forkIndex);
+  if (tail.length === 0) return branches;
+  return [
+    ...branches.filter((branch) => branch.forkIndex <= forkIndex),
+    {
+      id: generateId(),
+      forkIndex,
+      items: tail,
+      branches: branches.filter((branch) => branch.forkIndex > forkIndex),
+      timestamp: Date.now()
+    }
+  ];
+};
+
+/**
+ * Replace the past stack after recording changes, applying history limits and
+ * clearing the redo stack. Branching scopes keep the redo stack as a branch.
+ * @returns The entries evicted by the limits
+ */
+const commitPast = (
+  store: HistoryStoreAccess,
+  scope: HistoryScope,
+  past: HistoryItem[],
+  limits: Map<string, number>
+): HistoryEntry[] => {
+  const { past: previousPast, future, branches = [] } = store.get(scope.stackAtom);
+  const trimmed = enforceHistoryLimits(past, limits, scope);
+  const stack: HistoryStack = { past: trimmed.past, future: [] };
+
+  if (scope.branching) {
+    const line = [...previousPast, ...[...future].reverse()];
+    stack.branches = remapBranches(
+      splitLine(line, branches, previousPast.length),
+      (index) => trimmed.origins.filter((origin) => origin < index).length
+    );
+  }
+  store.set(scope.stackAtom, stack);
+
+  if (trimmed.past === past) return [];
+  const kept = new Set(flattenHistoryItems(trimmed.past));
+  return flattenHistoryItems(past).filter((entry) => !kept.has(entry));
+};
+
+// Report entries evicted by a commit
+const emitEvicted = (store: HistoryStoreAccess, scope: HistoryScope, entries: HistoryEntry[]): void => {
+  if (entries.length > 0) emitHistoryEvent(store, scope, 'evict', { entries });
+};
+
+/**
+ * Find the entry a change may merge into and the atom's value before that entry
+ * @returns null unless the atom's coalescing options allow merging
+ */
+const getCoalescingBase = (
+  store: HistoryStoreAccess,
+  id: string,
+  prevValue: unknown,
+  nextValue: unknown,
+  items: HistoryItem[],
+  scope: HistoryScope,
+  options?: PushToHistoryOptions
+): { entry: HistoryEntry; value: unknown } | null => {
+  if (options?.mergeWindowMs === undefined && !options?.mergeKey) return null;
+
+  // Only the most recent item may be extended, and only until coalescing is broken
+  const last = items[items.length - 1];
+  if (!last || last !== store.get(scope.coalescingEntryAtom)) return null;
+  if (isGroupHistoryOperation(last) || last.id !== id) return null;
+  if (options.mergeWindowMs !== undefined && Date.now() - last.timestamp > options.mergeWindowMs) return null;
+  if (options.mergeKey && !options.mergeKey(prevValue, nextValue)) return null;
+
+  const base = resolveEntryValue(last, prevValue, 'undo', getRegistration(scope, id) || {});
+  return base && { entry: last, value: base.value };
+};
+
+/**
+ * Stop merging further changes into the latest history entry, e.g. when a
+ * text input loses focus or Enter is pressed
+ */
+export const breakCoalescing = (
+  store: HistoryStoreAccess,
+  scope: HistoryScope = defaultHistoryScope
+): void => {
+  store.set(scope.coalescingEntryAtom, null);
 };
 
 // Push an entry to the history stack
 export const pushToHistory = (
+  store: HistoryStoreAccess,
   id: string,
   prevValue: unknown,
   nextValue: unknown,
-  options?: { 
-    historyLimit?: number;
-    useFullValueInstead?: boolean;
-    customDiff?: (prev: unknown, next: unknown) => unknown;
-  }
+  options?: PushToHistoryOptions
 ): void => {
-  const historyLimit = options?.historyLimit || DEFAULT_HISTORY_LIMIT;
+  const scope = options?.scope || defaultHistoryScope;
+
+  // Unrecorded changes also end the atom's run of coalesced changes
+  if (isHistoryPaused(store)) {
+    if (store.get(scope.coalescingEntryAtom)?.id === id) breakCoalescing(store, scope);
+    return;
+  }
+
+  const historyLimit = options?.historyLimit || getRegistration(scope, id)?.historyLimit || scope.historyLimit;
+  const groupEntries = store.get(scope.groupEntriesAtom);
+  const currentStack = readHistoryStack(store, scope);
+
+  // Write the new entries of the group in progress, or the new past stack.
+  // Returns the entries evicted by the limits.
+  const commitItems = (items: HistoryItem[]): HistoryEntry[] => {
+    if (groupEntries) {
+      store.set(scope.groupEntriesAtom, items as HistoryEntry[]);
+      return [];
+    }
+    // Add to history, respecting the atom's limit and the scope's budgets
+    return commitPast(store, scope, items, new Map([[id, historyLimit]]));
+  };
+
+  // A coalesced change replaces the atom's previous entry with one spanning both changes
+  const items: HistoryItem[] = groupEntries || currentStack.past;
+  const coalesced = getCoalescingBase(store, id, prevValue, nextValue, items, scope, options);
+  const baseItems = coalesced ? items.slice(0, -1) : items;
+  if (coalesced) {
+    prevValue = coalesced.value;
+  }
 
   // Compute diff or use full value
-  let entryData: { diff: unknown; fullValue?: unknown };
+  let diff: unknown;
+  let isCheckpoint = false;
   
   if (options?.useFullValueInstead) {
-    // Store the full previous value instead of a diff
-    entryData = { 
-      diff: prevValue,  // Use prevValue as the diff for simplicity
-      fullValue: prevValue // Also store the full value
-    };
+    // Store full values instead of a diff
+    diff = null;
+    isCheckpoint = true;
   } else if (options?.customDiff) {
     // Use custom diff function if provided
-    const customDiff = options.customDiff(prevValue, nextValue);
-    entryData = { diff: customDiff };
+    diff = options.customDiff(prevValue, nextValue);
   } else {
     // Use built-in diff calculation
-    const diff = createDiff(prevValue, nextValue);
+    const builtInDiff = createDiff(prevValue, nextValue, { getKey: options?.getKey });
     
-    if (diff === null) {
-      // No changes detected, don't record history
+    if (builtInDiff === null) {
+      // No changes detected, don't record history. Coalesced changes that
+      // cancel each other out drop the previous entry as well.
+      if (coalesced) {
+        store.set(scope.coalescingEntryAtom, null);
+        commitItems(baseItems);
+      }
       return;
     }
     
-    entryData = { diff };
-    
-    // For complex diffs, store the full value as a fallback
-    const isComplexDiff = 
-      (diff.type === 'object' && Object.keys(diff.changed).length > 10) ||
-      (diff.type === 'array' && diff.items.length > 20);
-      
-    if (isComplexDiff) {
-      entryData.fullValue = prevValue;
+    diff = builtInDiff;
+    if (options?.diffFormat === 'json-patch') {
+      try {
+        diff = toJsonPatch(builtInDiff);
+      } catch {
+        // Values JSON can't express, such as Maps, keep the built-in diff
+      }
     }
+    
+    // Large diffs are stored as checkpoints, which are cheaper to restore
+    isCheckpoint = getDiffSize(builtInDiff) > (options?.checkpointThreshold ?? scope.checkpointThreshold);
   }
   
   const entry: HistoryEntry = {
     id,
-    diff: entryData.diff,
+    diff,
     timestamp: Date.now()
   };
   
-  if (entryData.fullValue !== undefined) {
-    entry.fullValue = entryData.fullValue;
+  // Regular checkpoints keep long chains of diffs from having to be replayed
+  const checkpointInterval = options?.checkpointInterval ?? scope.checkpointInterval;
+  if (!isCheckpoint && checkpointInterval > 0) {
+    const pending = groupEntries ? [...currentStack.past, ...baseItems] : baseItems;
+    isCheckpoint = countEntriesSinceCheckpoint(pending, id) + 1 >= checkpointInterval;
+  }
+  
+  if (isCheckpoint) {
+    entry.fullValue = prevValue;
+    entry.nextFullValue = nextValue;
   }
 
-  // Add to group operation if one is in progress
-  const isGroupOperation = historyStore.get(currentGroupOperationAtom);
-  if (isGroupOperation) {
-    historyStore.set(currentGroupOperationAtom, [
-      ...(historyStore.get(currentGroupOperationAtom) || []), 
-      entry
-    ]);
-    return;
+  // Labels from withLabel take precedence over the atom's default label
+  const details = activeDetails[activeDetails.length - 1];
+  applyDetails(entry, {
+    label: details?.label ?? options?.label?.(prevValue, nextValue) ?? coalesced?.entry.label,
+    metadata: details?.metadata ?? coalesced?.entry.metadata
+  });
+
+  // Middleware may transform the entry or veto recording it
+  const grouped = groupEntries !== null;
+  const recorded = runHistoryMiddleware(store, entry, { scope, prevValue, nextValue, grouped });
+  if (!recorded) return;
+
+  store.set(scope.coalescingEntryAtom, recorded);
+
+  // Add to the group operation in progress, or to history
+  const evicted = commitItems([...baseItems, recorded]);
+  emitHistoryEvent(store, scope, 'push', {
+    id: recorded.id,
+    diff: recorded.diff,
+    label: recorded.label,
+    entry: recorded,
+    grouped,
+    coalesced: coalesced !== null
+  });
+  emitEvicted(store, scope, evicted);
+};
+
+// Check whether a history item is a grouped transaction
+export const isGroupHistoryOperation = (item: HistoryItem): item is GroupHistoryOperation => {
+  return (item as GroupHistoryOperation).type === 'group';
+};
+
+// List the entries of history items in recording order
+export const flattenHistoryItems = (items: HistoryItem[]): HistoryEntry[] => {
+  return items.flatMap((item) => (isGroupHistoryOperation(item) ? item.operations : [item]));
+};
+
+// Items copied by undo and redo, mapped to the item they were first recorded as
+const itemOrigins = new WeakMap<HistoryItem, HistoryItem>();
+
+// Copy an item that undo or redo moves to the other stack, with a new timestamp
+const moveHistoryItem = <Item extends HistoryItem>(item: Item): Item => {
+  const moved = { ...item, timestamp: Date.now() };
+  itemOrigins.set(moved, getHistoryItemOrigin(item));
+  return moved;
+};
+
+/**
+ * Get the item an item was first recorded as. Undo and redo copy the items
+ * they move, so this identifies an item across them.
+ */
+export const getHistoryItemOrigin = (item: HistoryItem): HistoryItem => {
+  return itemOrigins.get(item) || item;
+};
+
+// Check whether an entry stores full values on both sides of its change
+export const isCheckpointEntry = (entry: HistoryEntry): boolean => {
+  return 'fullValue' in entry && 'nextFullValue' in entry;
+};
+
+// Count an atom's entries recorded after its most recent checkpoint
+const countEntriesSinceCheckpoint = (items: HistoryItem[], id: string): number => {
+  const entries = flattenHistoryItems(items);
+  let count = 0;
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (entries[i].id !== id) continue;
+    if (isCheckpointEntry(entries[i])) break;
+    count++;
   }
+  return count;
+};
 
-  const currentStack = historyStore.get(historyStackAtom);
-  
-  // Add to history, respecting the limit
-  const newPast = [...currentStack.past, entry];
-  if (newPast.length > historyLimit) {
-    newPast.shift(); // Remove oldest entry if limit reached
+// Check whether a recorded diff is one of the built-in diff shapes
+const isBuiltInDiff = (diff: unknown): diff is Diff => {
+  return typeof diff === 'object' && diff !== null && 'type' in diff;
+};
+
+// Check whether a diff was recorded as a JSON Patch (diffFormat: 'json-patch')
+const isJsonPatchDiff = (diff: unknown): diff is JsonPatchOperation[] => {
+  return Array.isArray(diff) && diff.every((operation) => (
+    typeof operation === 'object' && operation !== null &&
+    typeof operation.op === 'string' && typeof operation.path === 'string'
+  ));
+};
+
+// Compute the value an entry restores when applied in the given direction
+const resolveEntryValue = (
+  entry: HistoryEntry,
+  currentValue: unknown,
+  direction: HistoryDirection,
+  handlers: HistoryPatchHandlers
+): { value: unknown } | null => {
+  // Full values are only used when there is no diff to apply or it can't be
+  // applied, so checkpoints don't change what undo and redo do
+  const key = direction === 'undo' ? 'fullValue' : 'nextFullValue';
+  const stored = key in entry ? { value: entry[key] } : null;
+  if (entry.diff === null || entry.diff === undefined) {
+    if (!stored) console.error(`Cannot ${direction} - no diff or full value stored for atom "${entry.id}"`);
+    return stored;
   }
-  
-  // Clear future when a new change occurs
-  historyStore.set(historyStackAtom, {
-    past: newPast,
-    future: [] // Clear redo stack when new changes occur
+
+  // Custom diffs are only understood by the atom's own patch handlers
+  if (handlers.patch || handlers.inversePatch) {
+    const patch = direction === 'undo' ? handlers.inversePatch : handlers.patch;
+    if (!patch) {
+      if (stored) return stored;
+      console.error(`Cannot ${direction} - no ${direction === 'undo' ? 'inverse ' : ''}patch registered for atom "${entry.id}"`);
+      return null;
+    }
+    try {
+      return { value: patch(currentValue, entry.diff) };
+    } catch (error) {
+      if (stored) return stored;
+      console.error(`Error applying custom patch during ${direction}:`, error);
+      return null;
+    }
+  }
+
+  try {
+    if (isJsonPatchDiff(entry.diff)) {
+      const patch = direction === 'undo' ? invertJsonPatch(entry.diff) : entry.diff;
+      return { value: applyJsonPatch(currentValue, patch) };
+    }
+    if (!isBuiltInDiff(entry.diff)) {
+      throw new Error('Invalid diff format');
+    }
+    const diff = direction === 'undo' ? reverseDiff(entry.diff) : entry.diff;
+    return { value: applyDiff(currentValue, diff) };
+  } catch (error) {
+    if (stored) return stored;
+    console.error(`Error applying diff during ${direction}:`, error);
+    // Fallback to using diff directly if it's a value diff
+    if (isBuiltInDiff(entry.diff) && entry.diff.type === 'value') {
+      const valueDiff = entry.diff as ValueDiff;
+      return { value: direction === 'undo' ? valueDiff.before : valueDiff.after };
+    }
+    console.error(`Cannot ${direction} - unable to apply diff and no fullValue available`);
+    return null;
+  }
+};
+
+/**
+ * Rebuild the value an atom had at a position of the history timeline, starting
+ * from the nearest checkpoint (or the current value) and replaying diffs from there
+ * @param position - Number of history items applied, from 0 (oldest state) to
+ *   past.length + future.length (all changes redone); past.length is the present
+ * @returns The rebuilt value, or null if the atom is unknown or a diff can't be applied
+ */
+export const resolveHistoryValue = (
+  store: HistoryStoreAccess,
+  id: string,
+  position: number,
+  scope: HistoryScope = defaultHistoryScope
+): { value: unknown } | null => {
+  const registration = getRegistration(scope, id);
+  if (!registration) return null;
+
+  const { past, future } = readHistoryStack(store, scope);
+  const timeline = [...past, ...[...future].reverse()];
+  const entries = flattenHistoryItems(timeline);
+  const target = flattenHistoryItems(timeline.slice(0, Math.max(0, position))).length;
+  const current = flattenHistoryItems(past).length;
+
+  // Candidate starting points: the current value, or a checkpoint on either side
+  let start = { index: current, value: store.get(registration.atom) as unknown };
+  let distance = Math.abs(target - current);
+  for (let i = target - 1; i >= 0 && target - 1 - i < distance; i--) {
+    if (entries[i].id === id && 'nextFullValue' in entries[i]) {
+      start = { index: i + 1, value: entries[i].nextFullValue };
+      distance = target - 1 - i;
+      break;
+    }
+  }
+  for (let i = target; i < entries.length && i - target < distance; i++) {
+    if (entries[i].id === id && 'fullValue' in entries[i]) {
+      start = { index: i, value: entries[i].fullValue };
+      break;
+    }
+  }
+
+  // Replay this atom's diffs from the starting point to the target position
+  let value = start.value;
+  const replay = (entry: HistoryEntry, direction: HistoryDirection): boolean => {
+    if (entry.id !== id) return true;
+    const result = resolveEntryValue(entry, value, direction, registration);
+    if (result) value = result.value;
+    return result !== null;
+  };
+  for (let i = start.index; i < target; i++) {
+    if (!replay(entries[i], 'redo')) return null;
+  }
+  for (let i = start.index - 1; i >= target; i--) {
+    if (!replay(entries[i], 'undo')) return null;
+  }
+  return { value };
+};
+
+/**
+ * Run a callback that writes atoms without recording those writes in history
+ */
+export const runWithoutRecording = <T>(store: HistoryStoreAccess, callback: () => T): T => {
+  const wasInProgress = store.get(isHistoryOperationInProgressAtom);
+  store.set(isHistoryOperationInProgressAtom, true);
+  try {
+    return callback();
+  } finally {
+    store.set(isHistoryOperationInProgressAtom, wasInProgress);
+  }
+};
+
+// Check whether recording is paused in a store
+export const isHistoryPaused = (store: HistoryStoreAccess): boolean => {
+  return store.get(historyPauseCountAtom) > 0;
+};
+
+/**
+ * Stop recording changes in a store, in every scope, until resumeHistory is
+ * called. Calls nest: recording resumes once every pause has been resumed.
+ */
+export const pauseHistory = (store: HistoryStoreAccess): void => {
+  store.set(historyPauseCountAtom, (count) => count + 1);
+};
+
+// Undo one pauseHistory call
+export const resumeHistory = (store: HistoryStoreAccess): void => {
+  store.set(historyPauseCountAtom, (count) => Math.max(0, count - 1));
+};
+
+/**
+ * Run a callback whose writes aren't recorded, e.g. loading a document from a
+ * server. Async callbacks keep recording paused until they settle, which also
+ * leaves other writes made in the meantime unrecorded.
+ */
+export const withoutHistory = <T>(store: HistoryStoreAccess, callback: () => T): T => {
+  pauseHistory(store);
+
+  let result: T;
+  try {
+    result = callback();
+  } catch (error) {
+    resumeHistory(store);
+    throw error;
+  }
+
+  if (result instanceof Promise) {
+    return result.finally(() => resumeHistory(store)) as unknown as T;
+  }
+
+  resumeHistory(store);
+  return result;
+};
+
+/**
+ * Write an atom without recording the change
+ * @param value - The value (or setter argument) to write
+ * @param options - With `resetBaseline`, the atom's entries are also dropped,
+ * making the new value the one its history starts from
+ */
+export const setWithoutHistory = <Value, Args extends unknown[], Result>(
+  store: HistoryStoreAccess,
+  atom: AtomWithHistory<Value, Args, Result>,
+  value: Args[0],
+  options: SetWithoutHistoryOptions = {}
+): void => {
+  withoutHistory(store, () => store.set(atom, ...([value] as Args)));
+  if (!options.resetBaseline) return;
+
+  const scope = options.scope || defaultHistoryScope;
+  const keep = (entry: HistoryEntry) => entry.id !== atom.id;
+  store.set(scope.stackAtom, purgeStack(readHistoryStack(store, scope), keep));
+  if (store.get(scope.coalescingEntryAtom)?.id === atom.id) breakCoalescing(store, scope);
+
+  // Groups in progress lose the atom's entries too, shifting their start offsets
+  const groupEntries = store.get(scope.groupEntriesAtom);
+  if (groupEntries) {
+    const frames = store.get(scope.groupFramesAtom);
+    store.set(scope.groupFramesAtom, frames.map((start) => groupEntries.slice(0, start).filter(keep).length));
+    store.set(scope.groupEntriesAtom, groupEntries.filter(keep));
+  }
+};
+
+/**
+ * Apply a single history entry to its atom without recording history
+ * @returns Whether the entry could be applied
+ */
+export const applyHistoryEntry = (
+  store: HistoryStoreAccess,
+  entry: HistoryEntry,
+  direction: HistoryDirection,
+  scope: HistoryScope = defaultHistoryScope
+): boolean => {
+  // Find the atom by ID - O(1) lookup with Map
+  const registration = getRegistration(scope, entry.id);
+  if (!registration) return false;
+
+  const { atom: atomWithId } = registration;
+  const result = resolveEntryValue(entry, store.get(atomWithId), direction, registration);
+  if (!result) return false;
+
+  store.set(atomWithId, result.value);
+  return true;
+};
+
+/**
+ * Apply a history item as one unit. Group operations are undone in reverse
+ * recording order and redone in recording order.
+ * @returns Whether any change could be applied
+ */
+export const applyHistoryItem = (
+  store: HistoryStoreAccess,
+  item: HistoryItem,
+  direction: HistoryDirection,
+  scope: HistoryScope = defaultHistoryScope
+): boolean => {
+  const entries = isGroupHistoryOperation(item) ? item.operations : [item];
+  const ordered = direction === 'undo' ? [...entries].reverse() : entries;
+
+  // Prevent recording these changes in history
+  return runWithoutRecording(store, () => {
+    let applied = false;
+    for (const entry of ordered) {
+      applied = applyHistoryEntry(store, entry, direction, scope) || applied;
+    }
+    return applied;
+  });
+};
+
+/**
+ * Jump to a position of the history timeline, undoing or redoing as many items
+ * as needed in one batch. Each affected atom is written once with its final value.
+ * @param position - Number of history items that should be applied, from 0
+ *   (everything undone) to past.length + future.length (everything redone)
+ * @returns Whether the position changed
+ */
+export const goToHistoryPosition = (
+  store: HistoryStoreAccess,
+  position: number,
+  scope: HistoryScope = defaultHistoryScope
+): boolean => {
+  const stack = readHistoryStack(store, scope);
+  const { past, future } = stack;
+  const timeline = [...past, ...[...future].reverse()];
+  const target = Math.min(Math.max(0, position), timeline.length);
+  if (target === past.length) return false;
+
+  // Rebuild the final value of every atom touched between here and the target
+  const touched = flattenHistoryItems(timeline.slice(
+    Math.min(target, past.length),
+    Math.max(target, past.length)
+  ));
+  const values = new Map<string, unknown>();
+  for (const { id } of touched) {
+    if (values.has(id) || !getRegistration(scope, id)) continue;
+    const result = resolveHistoryValue(store, id, target, scope);
+    if (!result) return false;
+    values.set(id, result.value);
+  }
+
+  runWithoutRecording(store, () => {
+    values.forEach((value, id) => store.set(getRegistration(scope, id)!.atom, value));
   });
+  store.set(scope.stackAtom, {
+    ...stack,
+    past: timeline.slice(0, target),
+    future: timeline.slice(target).reverse()
+  });
+
+  // Report every item passed, in the order it was undone or redone
+  if (target < past.length) {
+    for (const item of timeline.slice(target, past.length).reverse()) {
+      emitHistoryEvent(store, scope, 'undo', describeHistoryItem(item));
+    }
+  } else {
+    for (const item of timeline.slice(past.length, target)) {
+      emitHistoryEvent(store, scope, 'redo', describeHistoryItem(item));
+    }
+  }
+  return true;
+};
+
+// Drop the full values of an entry with a built-in diff or JSON Patch, so it is
+// applied as a diff on top of whatever the atom's value is now
+const withoutFullValues = (entry: HistoryEntry): HistoryEntry => {
+  if (!(isBuiltInDiff(entry.diff) || isJsonPatchDiff(entry.diff))) return entry;
+  if (!('fullValue' in entry || 'nextFullValue' in entry)) return entry;
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { fullValue, nextFullValue, ...rest } = entry;
+  return rest;
 };
 
-// Start a group operation
-export const startGroupOperation = (): void => {
-  historyStore.set(isGroupOperationInProgressAtom, true);
-  historyStore.set(currentGroupOperationAtom, []);
+// Apply a remote change to a full value of a local entry, or null if the change has no diff to apply
+const rebaseFullValue = (value: unknown, { entry, direction }: HistorySyncChange): { value: unknown } | null => {
+  try {
+    if (isJsonPatchDiff(entry.diff)) {
+      return { value: applyJsonPatch(value, direction === 'undo' ? invertJsonPatch(entry.diff) : entry.diff) };
+    }
+    const diff = isBuiltInDiff(entry.diff)
+      ? entry.diff
+      : isCheckpointEntry(entry) ? createDiff(entry.fullValue, entry.nextFullValue) : undefined;
+    if (diff === undefined) return null;
+    if (diff === null) return { value };
+    return { value: applyDiff(value, direction === 'undo' ? reverseDiff(diff) : diff) };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Apply changes made by another client (e.g. another tab) without recording
+ * them. Local entries of the changed atoms are rebased onto the new values:
+ * the remote changes are applied to their stored full values (or, where that
+ * isn't possible, the entries undo and redo as diffs), keeping the remote changes.
+ * @returns Whether any change could be applied
+ */
+export const applyRemoteChanges = (
+  store: HistoryStoreAccess,
+  changes: HistorySyncChange[],
+  scope: HistoryScope = defaultHistoryScope
+): boolean => {
+  const applied = runWithoutRecording(store, () => changes.filter(({ entry, direction }) => (
+    applyHistoryEntry(store, withoutFullValues(entry), direction, scope)
+  )));
+  if (applied.length === 0) return false;
+
+  const changesById = new Map<string, HistorySyncChange[]>();
+  applied.forEach((change) => changesById.set(change.entry.id, [...(changesById.get(change.entry.id) || []), change]));
+  const ids = new Set(changesById.keys());
+
+  // Full values of local entries get the remote changes too. Entries whose full
+  // values can't be rebased are applied as diffs instead, if they have one.
+  const rebaseEntry = (entry: HistoryEntry): HistoryEntry => {
+    const entryChanges = changesById.get(entry.id);
+    if (!entryChanges || !('fullValue' in entry || 'nextFullValue' in entry)) return entry;
+    const rebased = { ...entry };
+    for (const key of ['fullValue', 'nextFullValue'] as const) {
+      if (!(key in rebased)) continue;
+      let result: { value: unknown } | null = { value: rebased[key] };
+      for (const change of entryChanges) {
+        result = result && rebaseFullValue(result.value, change);
+      }
+      if (!result) return withoutFullValues(entry);
+      rebased[key] = result.value;
+    }
+    return rebased;
+  };
+  const rebaseItem = (item: HistoryItem): HistoryItem => {
+    if (!isGroupHistoryOperation(item)) return rebaseEntry(item);
+    const operations = item.operations.map(rebaseEntry);
+    return operations.every((entry, i) => entry === item.operations[i]) ? item : { ...item, operations };
+  };
+
+  const stack = readHistoryStack(store, scope);
+  const past = stack.past.map(rebaseItem);
+  const future = stack.future.map(rebaseItem);
+  const changed = (items: HistoryItem[], original: HistoryItem[]) => items.some((item, i) => item !== original[i]);
+  if (changed(past, stack.past) || changed(future, stack.future)) {
+    store.set(scope.stackAtom, { ...stack, past, future });
+  }
+
+  // Later local changes must not merge into an entry recorded before the remote ones
+  const coalescing = store.get(scope.coalescingEntryAtom);
+  if (coalescing && ids.has(coalescing.id)) breakCoalescing(store, scope);
+  return true;
+};
+
+/**
+ * Undo the most recent history item (a single entry or a whole group)
+ * @returns Whether anything changed
+ */
+export const undoHistory = (
+  store: HistoryStoreAccess,
+  scope: HistoryScope = defaultHistoryScope
+): boolean => {
+  const currentStack = readHistoryStack(store, scope);
+  if (currentStack.past.length === 0) return false;
+
+  const lastItem = currentStack.past[currentStack.past.length - 1];
+  if (!applyHistoryItem(store, lastItem, 'undo', scope)) return false;
+
+  const undone = moveHistoryItem(lastItem);
+  store.set(scope.stackAtom, {
+    ...currentStack,
+    past: currentStack.past.slice(0, -1),
+    future: [...currentStack.future, undone]
+  });
+  emitHistoryEvent(store, scope, 'undo', describeHistoryItem(undone));
+  return true;
+};
+
+/**
+ * Redo the most recently undone history item
+ * @returns Whether anything changed
+ */
+export const redoHistory = (
+  store: HistoryStoreAccess,
+  scope: HistoryScope = defaultHistoryScope
+): boolean => {
+  const currentStack = readHistoryStack(store, scope);
+  if (currentStack.future.length === 0) return false;
+
+  const nextItem = currentStack.future[currentStack.future.length - 1];
+  if (!applyHistoryItem(store, nextItem, 'redo', scope)) return false;
+
+  const redone = moveHistoryItem(nextItem);
+  store.set(scope.stackAtom, {
+    ...currentStack,
+    past: [...currentStack.past, redone],
+    future: currentStack.future.slice(0, -1)
+  });
+  emitHistoryEvent(store, scope, 'redo', describeHistoryItem(redone));
+  return true;
+};
+
+// Clear the past and future stacks of a scope
+export const clearHistory = (
+  store: HistoryStoreAccess,
+  scope: HistoryScope = defaultHistoryScope
+): void => {
+  const { past, future } = store.get(scope.stackAtom);
+  store.set(scope.stackAtom, { past: [], future: [] });
+  emitHistoryEvent(store, scope, 'clear', { cleared: past.length + future.length });
+};
+
+// Find the most recent entry of an atom in a stack, searching from the top
+const findLastAtomEntry = (
+  items: HistoryItem[],
+  id: string
+): { itemIndex: number; entry: HistoryEntry } | null => {
+  for (let i = items.length - 1; i >= 0; i--) {
+    const entries = flattenHistoryItems([items[i]]);
+    for (let j = entries.length - 1; j >= 0; j--) {
+      if (entries[j].id === id) return { itemIndex: i, entry: entries[j] };
+    }
+  }
+  return null;
+};
+
+// Fork index mapping for a line that lost the item at `removed` (if any) and
+// then gained one at `inserted`. Forks at the inserted position stay before it.
+const shiftForks = (removed: number | null, inserted: number) => (index: number): number => {
+  const shifted = removed !== null && index > removed ? index - 1 : index;
+  return shifted > inserted ? shifted + 1 : shifted;
+};
+
+// Remove one entry from a stack, dropping its group if nothing else is left in it
+const removeHistoryEntry = (items: HistoryItem[], itemIndex: number, entry: HistoryEntry): HistoryItem[] => {
+  const item = items[itemIndex];
+  const operations = isGroupHistoryOperation(item) ? item.operations.filter((other) => other !== entry) : [];
+  const replacement: HistoryItem[] = operations.length > 0 ? [{ ...(item as GroupHistoryOperation), operations }] : [];
+  return [...items.slice(0, itemIndex), ...replacement, ...items.slice(itemIndex + 1)];
+};
+
+/**
+ * Undo only the most recent change of one atom, leaving later changes to other
+ * atoms in place. The undone entry can be redone with redoAtom or redo.
+ * @returns Whether a change was undone
+ */
+export const undoAtom = <Value>(
+  store: HistoryStoreAccess,
+  atom: HistoryAtom<Value>,
+  scope: HistoryScope = defaultHistoryScope
+): boolean => {
+  const { past, future, branches } = readHistoryStack(store, scope);
+  const found = findLastAtomEntry(past, atom.id);
+  if (!found || !applyHistoryItem(store, found.entry, 'undo', scope)) return false;
+
+  const nextPast = removeHistoryEntry(past, found.itemIndex, found.entry);
+  store.set(scope.stackAtom, {
+    past: nextPast,
+    future: [...future, moveHistoryItem(found.entry)],
+    ...(branches && {
+      branches: remapBranches(branches, shiftForks(
+        nextPast.length < past.length ? found.itemIndex : null,
+        nextPast.length
+      ))
+    })
+  });
+  emitHistoryEvent(store, scope, 'undo', describeHistoryItem(found.entry));
+  return true;
 };
 
-// End a group operation and commit it to history
-export const endGroupOperation = (): void => {
-  const groupEntries = historyStore.get(currentGroupOperationAtom);
+/**
+ * Redo the most recently undone change of one atom
+ * @returns Whether a change was redone
+ */
+export const redoAtom = <Value>(
+  store: HistoryStoreAccess,
+  atom: HistoryAtom<Value>,
+  scope: HistoryScope = defaultHistoryScope
+): boolean => {
+  const { past, future, branches } = readHistoryStack(store, scope);
+  const found = findLastAtomEntry(future, atom.id);
+  if (!found || !applyHistoryItem(store, found.entry, 'redo', scope)) return false;
+
+  const nextFuture = removeHistoryEntry(future, found.itemIndex, found.entry);
+  store.set(scope.stackAtom, {
+    past: [...past, moveHistoryItem(found.entry)],
+    future: nextFuture,
+    ...(branches && {
+      branches: remapBranches(branches, shiftForks(
+        nextFuture.length < future.length ? past.length + future.length - 1 - found.itemIndex : null,
+        past.length
+      ))
+    })
+  });
+  emitHistoryEvent(store, scope, 'redo', describeHistoryItem(found.entry));
+  return true;
+};
+
+// Paths within an atom's value that a diff changes. Array diffs shift indices,
+// so they (like custom diffs and full values) touch the whole value at their path.
+const getDiffPaths = (diff: unknown, path: string[] = []): string[][] => {
+  if (isJsonPatchDiff(diff)) {
+    // Paths end before the first array index (or numeric key, which can't be told apart)
+    return diff.flatMap((operation) => ('from' in operation ? [operation.from, operation.path] : [operation.path]))
+      .map((pointer) => {
+        const tokens = pointer.split('/').slice(1).map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+        const index = tokens.findIndex((token) => /^([0-9]+|-)$/.test(token));
+        return index === -1 ? tokens : tokens.slice(0, index);
+      });
+  }
+  if (!isBuiltInDiff(diff) || diff.type !== 'object') return [path];
+  return [
+    ...Object.keys(diff.added).map((key) => [...path, key]),
+    ...diff.deleted.map((key) => [...path, key]),
+    ...Object.entries(diff.changed).flatMap(([key, childDiff]) => getDiffPaths(childDiff, [...path, key]))
+  ];
+};
+
+// Check whether one path is the same as or contains the other
+const pathsOverlap = (a: string[], b: string[]): boolean => {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter.every((key, i) => longer[i] === key);
+};
+
+/**
+ * Revert one past item on top of the current state, keeping the changes made
+ * after it. The revert is recorded as a new change. Nothing is reverted if a
+ * later item changed the same paths of the same atoms.
+ * @param index - Index of the item in the past stack
+ * @returns Whether the item was reverted, and the conflicting changes if not
+ */
+export const revertEntry = (
+  store: HistoryStoreAccess,
+  index: number,
+  scope: HistoryScope = defaultHistoryScope
+): HistoryRevertResult => {
+  const { past } = readHistoryStack(store, scope);
+  const item = past[index];
+  if (!item) return { reverted: false, conflicts: [] };
+
+  const entries = flattenHistoryItems([item]);
+  const conflicts: HistoryConflict[] = [];
+  for (let i = index + 1; i < past.length; i++) {
+    for (const later of flattenHistoryItems([past[i]])) {
+      const laterPaths = getDiffPaths(later.diff);
+      for (const entry of entries) {
+        if (entry.id !== later.id) continue;
+        const path = getDiffPaths(entry.diff).find((own) => laterPaths.some((other) => pathsOverlap(own, other)));
+        if (path) {
+          conflicts.push({ id: entry.id, path, index: i });
+          break;
+        }
+      }
+    }
+  }
+  if (conflicts.length > 0) return { reverted: false, conflicts };
+
+  // Undo the item's entries, newest first, on top of the current values
+  const values = new Map<string, unknown>();
+  for (const entry of [...entries].reverse()) {
+    const registration = getRegistration(scope, entry.id);
+    if (!registration) return { reverted: false, conflicts };
+
+    const current = values.has(entry.id) ? values.get(entry.id) : store.get(registration.atom);
+    // Diffs are reverted directly, as a full value would also undo the later changes
+    let result: { value: unknown } | null;
+    if (isBuiltInDiff(entry.diff)) {
+      result = { value: applyDiff(current, reverseDiff(entry.diff)) };
+    } else if (isJsonPatchDiff(entry.diff)) {
+      try {
+        result = { value: applyJsonPatch(current, invertJsonPatch(entry.diff)) };
+      } catch (error) {
+        console.error(`Cannot revert the JSON Patch of atom "${entry.id}":`, error);
+        result = null;
+      }
+    } else {
+      result = resolveEntryValue(entry, current, 'undo', registration);
+    }
+    if (!result) return { reverted: false, conflicts };
+    values.set(entry.id, result.value);
+  }
+
+  // The revert is its own step, even if the latest entry could be merged into
+  breakCoalescing(store, scope);
+  const write = () => values.forEach((value, id) => store.set(getRegistration(scope, id)!.atom, value));
+  if (values.size > 1) {
+    runGroupOperation(store, write, scope);
+  } else {
+    write();
+  }
+  return { reverted: true, conflicts };
+};
+
+/**
+ * Combine an atom's consecutive entries into one entry, or null if they cancel
+ * out. Returns the entries unchanged when their diffs can't be composed.
+ */
+const squashAtomEntries = (entries: HistoryEntry[]): HistoryEntry[] => {
+  const first = entries[0];
+  const last = entries[entries.length - 1];
+  const squashed: HistoryEntry = { id: first.id, diff: null, timestamp: last.timestamp };
+
+  if (entries.every(isCheckpointEntry)) {
+    squashed.fullValue = first.fullValue;
+    squashed.nextFullValue = last.nextFullValue;
+  } else if (entries.every((entry) => isJsonPatchDiff(entry.diff))) {
+    // Patches apply in sequence, so they are concatenated
+    squashed.diff = entries.flatMap((entry) => entry.diff as JsonPatchOperation[]);
+    if ('fullValue' in first) squashed.fullValue = first.fullValue;
+    if ('nextFullValue' in last) squashed.nextFullValue = last.nextFullValue;
+  } else if (entries.every((entry) => isBuiltInDiff(entry.diff))) {
+    let diff: Diff | null = null;
+    try {
+      for (const entry of entries) {
+        diff = diff ? composeDiff(diff, entry.diff as Diff) : (entry.diff as Diff);
+        if (!diff) break;
+      }
+    } catch {
+      // e.g. a type handler without compose
+      return entries;
+    }
+    if (!diff) return [];
+    squashed.diff = diff;
+    if ('fullValue' in first) squashed.fullValue = first.fullValue;
+    if ('nextFullValue' in last) squashed.nextFullValue = last.nextFullValue;
+  } else {
+    // Custom diffs are only understood by the atom's own patch handlers
+    return entries;
+  }
+
+  applyDetails(squashed, entries.find((entry) => entry.label !== undefined));
+  return [squashed];
+};
+
+/**
+ * Collapse a range of past items into a single item. Each atom's changes in the
+ * range are composed into one entry; changes to several atoms become a group.
+ * @param from - Index of the first past item to squash
+ * @param to - Index after the last past item to squash
+ * @returns Whether any items were squashed
+ */
+export const squashHistory = (
+  store: HistoryStoreAccess,
+  from: number,
+  to: number,
+  scope: HistoryScope = defaultHistoryScope
+): boolean => {
+  const { past, future, branches } = readHistoryStack(store, scope);
+  const start = Math.max(0, from);
+  const end = Math.min(to, past.length);
+  if (end - start < 2) return false;
+
+  // States inside the range disappear, so branches must not fork there
+  if (branches?.some((branch) => branch.forkIndex > start && branch.forkIndex < end)) return false;
+
+  const range = past.slice(start, end);
+  const byAtom = new Map<string, HistoryEntry[]>();
+  for (const entry of flattenHistoryItems(range)) {
+    byAtom.set(entry.id, [...(byAtom.get(entry.id) || []), entry]);
+  }
+  const operations = [...byAtom.values()].flatMap(squashAtomEntries);
+
+  let squashed: HistoryItem[] = [];
+  if (operations.length === 1) {
+    squashed = operations;
+  } else if (operations.length > 1) {
+    const group: GroupHistoryOperation = {
+      type: 'group',
+      operations,
+      timestamp: range[range.length - 1].timestamp
+    };
+    applyDetails(group, range.find((item) => item.label !== undefined));
+    squashed = [group];
+  }
+
+  store.set(scope.stackAtom, {
+    past: [...past.slice(0, start), ...squashed, ...past.slice(end)],
+    future,
+    ...(branches && {
+      branches: remapBranches(branches, (index) => (index >= end ? index - (end - start) + squashed.length : index))
+    })
+  });
+  return true;
+};
+
+// Find a branch and the branches it forks off, outermost first
+const findBranchPath = (branches: HistoryBranch[], id: string): HistoryBranch[] | null => {
+  for (const branch of branches) {
+    if (branch.id === id) return [branch];
+    const path = findBranchPath(branch.branches, id);
+    if (path) return [branch, ...path];
+  }
+  return null;
+};
+
+// Swap the current line with a branch forking off it and move to the branch's last item
+const switchToBranch = (store: HistoryStoreAccess, id: string, scope: HistoryScope): boolean => {
+  const { past, future, branches = [] } = readHistoryStack(store, scope);
+  const branch = branches.find((candidate) => candidate.id === id);
+  const line = [...past, ...[...future].reverse()];
+  if (!branch || branch.forkIndex > line.length) return false;
+
+  // Return to the fork point, then keep the rest of the current line as a branch
+  if (past.length !== branch.forkIndex && !goToHistoryPosition(store, branch.forkIndex, scope)) return false;
+  store.set(scope.stackAtom, {
+    past: line.slice(0, branch.forkIndex),
+    future: [...branch.items].reverse(),
+    branches: [
+      ...splitLine(line, branches.filter((other) => other !== branch), branch.forkIndex),
+      ...branch.branches
+    ]
+  });
+  return goToHistoryPosition(store, branch.forkIndex + branch.items.length, scope);
+};
+
+/**
+ * Switch a branching scope to another branch of its undo tree. The current line
+ * is kept as a branch, and the target branch's changes are applied up to its last item.
+ * @param id - ID of the branch, which may fork off another branch
+ * @returns Whether the branch was found and applied
+ */
+export const switchHistoryBranch = (
+  store: HistoryStoreAccess,
+  id: string,
+  scope: HistoryScope = defaultHistoryScope
+): boolean => {
+  const path = findBranchPath(readHistoryStack(store, scope).branches || [], id);
+  if (!path) return false;
+
+  // Branches of a branch fork off the current line once that branch is switched to
+  return path.every((branch) => switchToBranch(store, branch.id, scope));
+};
+
+// Start a group operation. Nested groups are merged into the outermost one.
+export const startGroupOperation = (
+  store: HistoryStoreAccess,
+  scope: HistoryScope = defaultHistoryScope
+): void => {
+  const frames = store.get(scope.groupFramesAtom);
+  const entries = store.get(scope.groupEntriesAtom) || [];
+
+  // Changes in the group must not merge into entries from before it, which aborting it wouldn't revert
+  breakCoalescing(store, scope);
+
+  store.set(scope.groupEntriesAtom, entries);
+  store.set(scope.groupFramesAtom, [...frames, entries.length]);
+};
+
+// End a group operation and commit it to history as a single transaction
+export const endGroupOperation = (
+  store: HistoryStoreAccess,
+  scope: HistoryScope = defaultHistoryScope,
+  details?: HistoryEntryDetails
+): void => {
+  const frames = store.get(scope.groupFramesAtom);
+  if (frames.length === 0) return;
+
+  const remainingFrames = frames.slice(0, -1);
+  store.set(scope.groupFramesAtom, remainingFrames);
+
+  // Inner groups are committed as part of their enclosing group
+  if (remainingFrames.length > 0) return;
+
+  const groupEntries = store.get(scope.groupEntriesAtom);
+  store.set(scope.groupEntriesAtom, null);
+
   if (groupEntries && groupEntries.length > 0) {
-    const currentStack = historyStore.get(historyStackAtom);
-    
-    historyStore.set(historyStackAtom, {
-      past: [...currentStack.past, ...groupEntries],
-      future: []
-    });
+    const currentStack = readHistoryStack(store, scope);
+    const group: GroupHistoryOperation = {
+      type: 'group',
+      operations: groupEntries,
+      timestamp: Date.now()
+    };
+    applyDetails(group, details || activeDetails[activeDetails.length - 1]);
+
+    // Every atom in the group is held to its own limit
+    const limits = new Map<string, number>();
+    for (const { id } of groupEntries) {
+      limits.set(id, getRegistration(scope, id)?.historyLimit || scope.historyLimit);
+    }
+
+    const evicted = commitPast(store, scope, [...currentStack.past, group], limits);
+    emitHistoryEvent(store, scope, 'groupCommit', describeHistoryItem(group));
+    emitEvicted(store, scope, evicted);
   }
-  
-  historyStore.set(isGroupOperationInProgressAtom, false);
-  historyStore.set(currentGroupOperationAtom, null);
-}; 
\ No newline at end of file
+};
+
+// Abort the innermost group operation, reverting every change it recorded
+export const abortGroupOperation = (
+  store: HistoryStoreAccess,
+  scope: HistoryScope = defaultHistoryScope
+): void => {
+  const frames = store.get(scope.groupFramesAtom);
+  if (frames.length === 0) return;
+
+  const start = frames[frames.length - 1];
+  const entries = store.get(scope.groupEntriesAtom) || [];
+
+  applyHistoryItem(store, {
+    type: 'group',
+    operations: entries.slice(start),
+    timestamp: Date.now()
+  }, 'undo', scope);
+
+  store.set(scope.groupEntriesAtom, entries.slice(0, start));
+  endGroupOperation(store, scope);
+};
+
+/**
+ * Run a callback as a single undoable transaction. Async callbacks keep the
+ * group open until they settle. If the callback throws or rejects, every
+ * change made inside the group is rolled back and the error is rethrown.
+ */
+export const runGroupOperation = <T>(
+  store: HistoryStoreAccess,
+  callback: () => T,
+  scope: HistoryScope = defaultHistoryScope,
+  details?: HistoryEntryDetails
+): T => {
+  startGroupOperation(store, scope);
+
+  let result: T;
+  try {
+    result = callback();
+  } catch (error) {
+    abortGroupOperation(store, scope);
+    throw error;
+  }
+
+  if (result instanceof Promise) {
+    return result.then(
+      (value) => {
+        endGroupOperation(store, scope, details);
+        return value;
+      },
+      (error) => {
+        abortGroupOperation(store, scope);
+        throw error;
+      }
+    ) as unknown as T;
+  }
+
+  endGroupOperation(store, scope, details);
+  return result;
+};
+
+/**
+ * Create a history manager bound to a Jotai store. All history state lives in
+ * atoms, so each store (or Provider) keeps its own stacks and group tracking.
+ * @param store - The store that holds both the atom values and their history
+ */
+export function createHistoryManager(store: HistoryStore): HistoryManager {
+  return {
+    store,
+    pushToHistory: (id, prevValue, nextValue, options) =>
+      pushToHistory(store, id, prevValue, nextValue, options),
+    applyHistoryItem: (item, direction, scope) => applyHistoryItem(store, item, direction, scope),
+    resolveHistoryValue: (id, position, scope) => resolveHistoryValue(store, id, position, scope),
+    goToHistoryPosition: (position, scope) => goToHistoryPosition(store, position, scope),
+    startGroupOperation: (scope) => startGroupOperation(store, scope),
+    endGroupOperation: (scope, details) => endGroupOperation(store, scope, details),
+    abortGroupOperation: (scope) => abortGroupOperation(store, scope),
+    runGroupOperation: (callback, scope, details) => runGroupOperation(store, callback, scope, details),
+    breakCoalescing: (scope) => breakCoalescing(store, scope),
+    squashHistory: (from, to, scope) => squashHistory(store, from, to, scope),
+    undoAtom: (atom, scope) => undoAtom(store, atom, scope),
+    redoAtom: (atom, scope) => redoAtom(store, atom, scope),
+    revertEntry: (index, scope) => revertEntry(store, index, scope),
+    switchBranch: (id, scope) => switchHistoryBranch(store, id, scope),
+    applyRemoteChanges: (changes, scope) => applyRemoteChanges(store, changes, scope),
+    undo: (scope) => undoHistory(store, scope),
+    redo: (scope) => redoHistory(store, scope),
+    clear: (scope) => clearHistory(store, scope),
+    onPush: (listener, scope) => onHistoryEvent(store, 'push', listener, scope),
+    onUndo: (listener, scope) => onHistoryEvent(store, 'undo', listener, scope),
+    onRedo: (listener, scope) => onHistoryEvent(store, 'redo', listener, scope),
+    onClear: (listener, scope) => onHistoryEvent(store, 'clear', listener, scope),
+    onEvict: (listener, scope) => onHistoryEvent(store, 'evict', listener, scope),
+    onGroupCommit: (listener, scope) => onHistoryEvent(store, 'groupCommit', listener, scope),
+    use: (middleware, scope) => addHistoryMiddleware(store, middleware, scope),
+    pauseHistory: () => pauseHistory(store),
+    resumeHistory: () => resumeHistory(store),
+    isHistoryPaused: () => isHistoryPaused(store),
+    withoutHistory: (callback) => withoutHistory(store, callback),
+    setWithoutHistory: (atom, value, options) => setWithoutHistory(store, atom, value, options)
+  };
+}
+
+// Managers already created for each store
+const historyManagers = new WeakMap<HistoryStore, HistoryManager>();
+
+/**
+ * Get the history manager bound to a store, creating it on first use
+ * @param store - The Jotai store (defaults to the history store)
+ */
+export function getHistoryManager(store: HistoryStore = historyStore): HistoryManager {
+  let manager = historyManagers.get(store);
+  if (!manager) {
+    manager = createHistoryManager(store);
+    historyManagers.set(store, manager);
+  }
+  return manager;
+}
@@ -0,0 +1,119 @@
+/**
+ * History Sync
+ *
+ * Shares the changes recorded in a history scope with other clients (tabs,
+ * windows or collaborators) over a pluggable transport. Remote changes are
+ * applied without going onto the local undo stack, so each client undoes only
+ * its own edits.
+ */
+
+import type {
+  HistoryEntry,
+  HistoryStore,
+  HistorySyncChange,
+  HistorySyncMessage,
+  HistorySyncOptions,
+  HistorySyncTransport
+} from './types';
+import { defaultHistoryScope, generateId, getHistoryManager } from './historyManager';
+
+// Default BroadcastChannel name
+const DEFAULT_CHANNEL_NAME = 'jotai-history-global';
+
+/**
+ * Sync a history scope of a store with other clients
+ * @returns A function that stops syncing
+ */
+export function syncHistory(store: HistoryStore, options: HistorySyncOptions): () => void {
+  const { transport } = options;
+  const scope = options.scope || defaultHistoryScope;
+  const clientId = options.clientId || generateId();
+  const manager = getHistoryManager(store);
+
+  // Latest entry sent on its own, which a coalesced change replaces
+  let lastEntry: HistoryEntry | null = null;
+
+  const send = (changes: HistorySyncChange[]) => {
+    if (changes.length > 0) transport.send({ source: clientId, scope: scope.id, changes });
+  };
+
+  const unsubscribers = [
+    manager.onPush((event) => {
+      // Entries of a group are sent once the group commits
+      if (event.grouped) return;
+      const changes: HistorySyncChange[] = [];
+      if (event.coalesced && lastEntry?.id === event.id) {
+        changes.push({ entry: lastEntry, direction: 'undo' });
+      }
+      changes.push({ entry: event.entry, direction: 'redo' });
+      lastEntry = event.entry;
+      send(changes);
+    }, scope),
+    manager.onGroupCommit((event) => {
+      lastEntry = null;
+      send(event.entries.map((entry) => ({ entry, direction: 'redo' })));
+    }, scope),
+    manager.onUndo((event) => {
+      lastEntry = null;
+      send([...event.entries].reverse().map((entry) => ({ entry, direction: 'undo' })));
+    }, scope),
+    manager.onRedo((event) => {
+      lastEntry = null;
+      send(event.entries.map((entry) => ({ entry, direction: 'redo' })));
+    }, scope),
+    transport.subscribe((message) => {
+      if (message.source === clientId || message.scope !== scope.id) return;
+      manager.applyRemoteChanges(message.changes, scope);
+    })
+  ];
+
+  return () => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+  };
+}
+
+/**
+ * Create a transport that syncs the tabs and windows of the same origin.
+ * Values are copied with the structured clone algorithm.
+ * @param name - Channel name shared by the clients
+ */
+export function createBroadcastChannelTransport(name: string = DEFAULT_CHANNEL_NAME): HistorySyncTransport {
+  const channel = new BroadcastChannel(name);
+  return {
+    send: (message) => channel.postMessage(message),
+    subscribe: (listener) => {
+      const handleMessage = (event: MessageEvent<HistorySyncMessage>) => listener(event.data);
+      channel.addEventListener('message', handleMessage);
+      return () => channel.removeEventListener('message', handleMessage);
+    }
+  };
+}
+
+/**
+ * Create an in-memory hub whose transports deliver messages to each other
+ * synchronously, for tests and for clients sharing one JavaScript context
+ */
+export function createMemorySyncHub(): { connect: () => HistorySyncTransport } {
+  const transports = new Set<Set<(message: HistorySyncMessage) => void>>();
+
+  return {
+    connect: () => {
+      const listeners = new Set<(message: HistorySyncMessage) => void>();
+      transports.add(listeners);
+      return {
+        // Like BroadcastChannel, a transport doesn't receive its own messages
+        send: (message) => {
+          transports.forEach((other) => {
+            if (other !== listeners) other.forEach((listener) => listener(message));
+          });
+        },
+        subscribe: (listener) => {
+          listeners.add(listener);
+          return () => {
+            listeners.delete(listener);
+          };
+        }
+      };
+    }
+  };
+}
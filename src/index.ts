@@ -5,18 +5,8 @@
  * across the entire application using efficient diff-based storage and O(1) atom lookups.
  */
 
-export { atomWithHistory, getAtomValue, setAtomValue } from './atomWithHistory';
+export * from './vanilla';
 export { useHistory } from './useHistory';
-export { historyStore, registerHistoryAtom, unregisterHistoryAtom } from './historyManager';
-export { createDiff, applyDiff, reverseDiff } from './diffUtils';
-export type { 
-  AtomWithHistory, 
-  AtomWithHistoryOptions, 
-  HistoryActions, 
-  HistoryEntry, 
-  HistoryStack,
-  Diff,
-  ObjectDiff,
-  ArrayDiff,
-  ValueDiff
-} from './types'; 
\ No newline at end of file
+export { useHistoryEntries } from './useHistoryEntries';
+export { useHistoryBranches } from './useHistoryBranches';
+export { useHistoryHotkeys } from './useHistoryHotkeys';
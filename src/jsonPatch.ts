@@ -0,0 +1,241 @@
+/**
+ * JSON Patch
+ *
+ * Converts history diffs to and from JSON Patch (RFC 6902), and applies and
+ * inverts patches. Patches created here test the old value before every
+ * remove and replace, so they can be inverted without the original value.
+ */
+
+import type { Diff, DiffOptions, JsonPatchOperation } from './types';
+import { createDiff } from './diffUtils';
+
+// How an operation writes the location a path points to
+type WriteMode = 'add' | 'replace' | 'remove';
+
+// Escapes a key for use as a JSON Pointer (RFC 6901) token
+function escapePointerToken(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+// Splits a JSON Pointer into unescaped tokens
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer "${pointer}"`);
+  }
+  return pointer.slice(1).split('/').map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+// Parses an array index token; `-` (after the last item) only where allowed
+function parseIndex(token: string, length: number, allowEnd: boolean): number {
+  if (allowEnd && token === '-') return length;
+  if (!/^(0|[1-9][0-9]*)$/.test(token)) {
+    throw new Error(`Invalid array index "${token}"`);
+  }
+  const index = Number(token);
+  if (index > length || (!allowEnd && index === length)) {
+    throw new Error(`Array index ${index} is out of bounds`);
+  }
+  return index;
+}
+
+// Reads the value at a path
+function getAt(document: unknown, tokens: string[]): unknown {
+  return tokens.reduce<unknown>((value, token) => {
+    if (Array.isArray(value)) {
+      return value[parseIndex(token, value.length, false)];
+    }
+    if (value === null || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, token)) {
+      throw new Error(`Path "/${tokens.join('/')}" does not exist`);
+    }
+    return (value as Record<string, unknown>)[token];
+  }, document);
+}
+
+// Writes the location a path points to, copying the containers along the path
+function writeAt(document: unknown, tokens: string[], mode: WriteMode, value?: unknown): unknown {
+  if (tokens.length === 0) {
+    return mode === 'remove' ? undefined : value;
+  }
+
+  const [token, ...rest] = tokens;
+  if (Array.isArray(document)) {
+    const result = [...document];
+    const index = parseIndex(token, result.length, rest.length === 0 && mode === 'add');
+    if (rest.length > 0) {
+      result[index] = writeAt(result[index], rest, mode, value);
+    } else if (mode === 'add') {
+      result.splice(index, 0, value);
+    } else if (mode === 'replace') {
+      result[index] = value;
+    } else {
+      result.splice(index, 1);
+    }
+    return result;
+  }
+
+  if (document === null || typeof document !== 'object') {
+    throw new Error(`Cannot write "${token}" of a non-object value`);
+  }
+  const result = Object.assign(Object.create(Object.getPrototypeOf(document)), document) as Record<string, unknown>;
+  const exists = Object.prototype.hasOwnProperty.call(result, token);
+  if ((rest.length > 0 || mode !== 'add') && !exists) {
+    throw new Error(`Key "${token}" does not exist`);
+  }
+  if (rest.length > 0) {
+    result[token] = writeAt(result[token], rest, mode, value);
+  } else if (mode === 'remove') {
+    delete result[token];
+  } else {
+    result[token] = value;
+  }
+  return result;
+}
+
+/**
+ * Converts a diff into JSON Patch operations
+ * @param diff - An object, array or value diff (Map, Set and type handler diffs have no JSON form)
+ * @param path - JSON Pointer of the value the diff applies to (default: the whole value)
+ * @returns Operations that test old values before removing or replacing them
+ */
+export function toJsonPatch(diff: Diff, path: string = ''): JsonPatchOperation[] {
+  switch (diff.type) {
+    case 'value':
+      return [
+        { op: 'test', path, value: diff.before },
+        { op: 'replace', path, value: diff.after }
+      ];
+    case 'object': {
+      const operations: JsonPatchOperation[] = [];
+      for (const [key, childDiff] of Object.entries(diff.changed)) {
+        operations.push(...toJsonPatch(childDiff as Diff, `${path}/${escapePointerToken(key)}`));
+      }
+      for (const key of diff.deleted) {
+        const keyPath = `${path}/${escapePointerToken(key)}`;
+        operations.push({ op: 'test', path: keyPath, value: diff.deletedValues[key] }, { op: 'remove', path: keyPath });
+      }
+      for (const [key, value] of Object.entries(diff.added)) {
+        operations.push({ op: 'add', path: `${path}/${escapePointerToken(key)}`, value });
+      }
+      return operations;
+    }
+    case 'array':
+      return diff.items.flatMap((item): JsonPatchOperation[] => {
+        switch (item.op) {
+          case 'insert':
+            return [{ op: 'add', path: `${path}/${item.index}`, value: item.value }];
+          case 'remove':
+            return [
+              { op: 'test', path: `${path}/${item.index}`, value: item.value },
+              { op: 'remove', path: `${path}/${item.index}` }
+            ];
+          case 'replace':
+            return [
+              { op: 'test', path: `${path}/${item.index}`, value: item.oldValue },
+              { op: 'replace', path: `${path}/${item.index}`, value: item.value }
+            ];
+          case 'move':
+            return [{ op: 'move', from: `${path}/${item.from}`, path: `${path}/${item.to}` }];
+        }
+      });
+    default:
+      throw new Error(`A ${diff.type} diff cannot be expressed as JSON Patch`);
+  }
+}
+
+/**
+ * Applies JSON Patch operations to a value without mutating it
+ * @throws If a path does not exist or a test operation fails
+ */
+export function applyJsonPatch<T>(document: T, operations: JsonPatchOperation[]): T {
+  return operations.reduce<unknown>((value, operation) => {
+    const path = parsePointer(operation.path);
+    switch (operation.op) {
+      case 'add':
+      case 'replace':
+        return writeAt(value, path, operation.op, operation.value);
+      case 'remove':
+        return writeAt(value, path, 'remove');
+      case 'move':
+      case 'copy': {
+        const from = parsePointer(operation.from);
+        const moved = getAt(value, from);
+        const source = operation.op === 'move' ? writeAt(value, from, 'remove') : value;
+        return writeAt(source, path, 'add', moved);
+      }
+      case 'test':
+        if (createDiff(getAt(value, path), operation.value) !== null) {
+          throw new Error(`JSON Patch test failed at "${operation.path}"`);
+        }
+        return value;
+      default:
+        throw new Error(`Unknown JSON Patch operation "${(operation as { op: unknown }).op}"`);
+    }
+  }, document) as T;
+}
+
+/**
+ * Creates the patch that undoes a patch. Every remove and replace must be
+ * preceded by a test of the old value at its path, as toJsonPatch does.
+ * @throws If the patch lacks the old values needed to invert it
+ */
+export function invertJsonPatch(operations: JsonPatchOperation[]): JsonPatchOperation[] {
+  const inverse: JsonPatchOperation[][] = [];
+
+  operations.forEach((operation, i) => {
+    const previous = operations[i - 1];
+    const oldValue = previous?.op === 'test' && previous.path === operation.path
+      ? { value: previous.value }
+      : null;
+
+    switch (operation.op) {
+      case 'add':
+        if (operation.path.endsWith('/-')) {
+          throw new Error(`Cannot invert an append to "${operation.path}" without its index`);
+        }
+        inverse.push([
+          { op: 'test', path: operation.path, value: operation.value },
+          { op: 'remove', path: operation.path }
+        ]);
+        break;
+      case 'remove':
+      case 'replace':
+        if (!oldValue) {
+          throw new Error(`Cannot invert a ${operation.op} of "${operation.path}" without a test of its old value`);
+        }
+        inverse.push(operation.op === 'remove'
+          ? [{ op: 'add', path: operation.path, value: oldValue.value }]
+          : [
+            { op: 'test', path: operation.path, value: operation.value },
+            { op: 'replace', path: operation.path, value: oldValue.value }
+          ]);
+        break;
+      case 'move':
+        inverse.push([{ op: 'move', from: operation.path, path: operation.from }]);
+        break;
+      case 'copy':
+        inverse.push([{ op: 'remove', path: operation.path }]);
+        break;
+      // Tests check the value before the patch, so they have no inverse
+    }
+  });
+
+  return inverse.reverse().flat();
+}
+
+/**
+ * Converts JSON Patch operations into a diff. JSON Pointers don't say whether
+ * a token is an array index or an object key, so the value the patch applies
+ * to is needed.
+ * @param operations - The patch
+ * @param value - The value the patch applies to
+ * @param options - Diff options, e.g. how to identify array items
+ * @returns The difference or null if the patch changes nothing
+ */
+export function fromJsonPatch(
+  operations: JsonPatchOperation[],
+  value: unknown,
+  options: DiffOptions = {}
+): Diff | null {
+  return createDiff(value, applyJsonPatch(value, operations), options);
+}
@@ -0,0 +1,308 @@
+/**
+ * History Persistence
+ *
+ * Saves a history scope (past/future stacks and current atom values) to a
+ * key-value storage and restores it after a reload
+ */
+
+import type {
+  HistoryAtomRegistration,
+  HistoryPersistenceOptions,
+  HistoryStack,
+  HistoryStorageAdapter,
+  HistoryStore,
+  HistoryValueSerializer,
+  PersistedHistory
+} from './types';
+import { defaultHistoryScope, getAtomById, runWithoutRecording } from './historyManager';
+
+// Current version of the persisted history format
+export const HISTORY_SCHEMA_VERSION = 1;
+
+// Property marking an encoded (non-JSON) value
+const TYPE_TAG = '$type';
+
+// Serializers for common non-JSON values, tried after user-supplied ones
+const builtInSerializers: HistoryValueSerializer[] = [
+  {
+    type: 'undefined',
+    test: (value) => value === undefined,
+    serialize: () => null,
+    deserialize: () => undefined
+  },
+  {
+    type: 'Date',
+    test: (value) => value instanceof Date,
+    serialize: (value) => (value as Date).toISOString(),
+    deserialize: (data) => new Date(data as string)
+  },
+  {
+    type: 'Map',
+    test: (value) => value instanceof Map,
+    serialize: (value) => [...(value as Map<unknown, unknown>)],
+    deserialize: (data) => new Map(data as Array<[unknown, unknown]>)
+  },
+  {
+    type: 'Set',
+    test: (value) => value instanceof Set,
+    serialize: (value) => [...(value as Set<unknown>)],
+    deserialize: (data) => new Set(data as unknown[])
+  }
+];
+
+/**
+ * Encodes a value into JSON-safe data, tagging values handled by a serializer
+ */
+function encodeValue(value: unknown, serializers: HistoryValueSerializer[]): unknown {
+  const serializer = serializers.find((candidate) => candidate.test(value));
+  if (serializer) {
+    return { [TYPE_TAG]: serializer.type, data: encodeValue(serializer.serialize(value), serializers) };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => encodeValue(item, serializers));
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const encoded: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      encoded[key] = encodeValue(child, serializers);
+    }
+    // Objects that happen to use the tag property are wrapped so they aren't mistaken for encoded values
+    return TYPE_TAG in encoded ? { [TYPE_TAG]: 'object', data: encoded } : encoded;
+  }
+
+  return value;
+}
+
+/**
+ * Decodes data produced by encodeValue
+ */
+function decodeValue(data: unknown, serializers: HistoryValueSerializer[]): unknown {
+  if (Array.isArray(data)) {
+    return data.map((item) => decodeValue(item, serializers));
+  }
+
+  if (data === null || typeof data !== 'object') {
+    return data;
+  }
+
+  const record = data as Record<string, unknown>;
+  if (TYPE_TAG in record) {
+    const type = record[TYPE_TAG];
+    if (type === 'object') {
+      return decodeObject(record.data as Record<string, unknown>, serializers);
+    }
+    const serializer = serializers.find((candidate) => candidate.type === type);
+    if (!serializer) {
+      throw new Error(`No serializer registered for persisted type "${String(type)}"`);
+    }
+    return serializer.deserialize(decodeValue(record.data, serializers));
+  }
+
+  return decodeObject(record, serializers);
+}
+
+function decodeObject(
+  record: Record<string, unknown>,
+  serializers: HistoryValueSerializer[]
+): Record<string, unknown> {
+  const decoded: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(record)) {
+    decoded[key] = decodeValue(child, serializers);
+  }
+  return decoded;
+}
+
+// Resolve the options shared by all persistence functions
+const resolveOptions = (options: Omit<HistoryPersistenceOptions, 'storage'>) => {
+  const scope = options.scope || defaultHistoryScope;
+  return {
+    scope,
+    key: options.key || `jotai-history-global:${scope.id}`,
+    version: options.version ?? HISTORY_SCHEMA_VERSION,
+    serializers: [...(options.serializers || []), ...builtInSerializers]
+  };
+};
+
+/**
+ * Serialize a scope's history and the current values of its atoms
+ * @param store - The store holding the history
+ * @param options - Persistence options (the storage adapter isn't used here)
+ */
+export function serializeHistory(
+  store: HistoryStore,
+  options: Omit<HistoryPersistenceOptions, 'storage'> = {}
+): PersistedHistory {
+  const { scope, version, serializers } = resolveOptions(options);
+
+  const values: Record<string, unknown> = {};
+  scope.registry.forEach((_, id) => {
+    const atom = getAtomById(id, scope);
+    if (atom) values[id] = encodeValue(store.get(atom), serializers);
+  });
+
+  return {
+    version,
+    scope: scope.id,
+    stack: encodeValue(store.get(scope.stackAtom), serializers),
+    values
+  };
+}
+
+/**
+ * Restore a serialized history into a store. Atoms are matched by ID; values
+ * of atoms that aren't registered yet are applied when they register, and
+ * their entries stay in the stack until then.
+ * @param store - The store to restore into
+ * @param data - Data produced by serializeHistory, possibly from an older version
+ * @param options - Persistence options (the storage adapter isn't used here)
+ * @returns Whether the data could be restored
+ */
+export function restoreHistory(
+  store: HistoryStore,
+  data: PersistedHistory,
+  options: Omit<HistoryPersistenceOptions, 'storage'> = {}
+): boolean {
+  const { scope, version, serializers } = resolveOptions(options);
+
+  let migrated = data;
+  if (migrated.version > version) {
+    console.warn(`Ignoring persisted history with newer version ${migrated.version}`);
+    return false;
+  }
+  while (migrated.version < version) {
+    const migrate = options.migrations?.[migrated.version];
+    if (!migrate) {
+      throw new Error(`No migration from persisted history version ${migrated.version}`);
+    }
+    migrated = { ...migrate(migrated), version: migrated.version + 1 };
+  }
+
+  const pendingValues = new Map<string, unknown>();
+  for (const [id, encoded] of Object.entries(migrated.values)) {
+    pendingValues.set(id, decodeValue(encoded, serializers));
+  }
+
+  const applyPendingValue = (id: string) => {
+    const atom = getAtomById(id, scope);
+    if (!atom || !pendingValues.has(id)) return;
+    runWithoutRecording(store, () => store.set(atom, pendingValues.get(id)));
+    pendingValues.delete(id);
+  };
+
+  store.set(scope.stackAtom, decodeValue(migrated.stack, serializers) as HistoryStack);
+  [...pendingValues.keys()].forEach(applyPendingValue);
+
+  // Wait for atoms that are created later, e.g. in lazily loaded modules
+  if (pendingValues.size > 0) {
+    const listener = ({ atom }: HistoryAtomRegistration) => {
+      applyPendingValue(atom.id);
+      if (pendingValues.size === 0) {
+        scope.registrationListeners.delete(listener);
+      }
+    };
+    scope.registrationListeners.add(listener);
+  }
+
+  return true;
+}
+
+/**
+ * Save a scope's history to storage
+ */
+export async function saveHistory(store: HistoryStore, options: HistoryPersistenceOptions): Promise<void> {
+  const { key } = resolveOptions(options);
+  await options.storage.setItem(key, JSON.stringify(serializeHistory(store, options)));
+}
+
+/**
+ * Load a scope's history from storage
+ * @returns Whether a saved history was found and restored
+ */
+export async function loadHistory(store: HistoryStore, options: HistoryPersistenceOptions): Promise<boolean> {
+  const { key } = resolveOptions(options);
+  const saved = await options.storage.getItem(key);
+  if (saved === null) return false;
+
+  return restoreHistory(store, JSON.parse(saved) as PersistedHistory, options);
+}
+
+/**
+ * Save a scope's history whenever its stack changes
+ * @returns A function that stops persisting
+ */
+export function persistHistory(store: HistoryStore, options: HistoryPersistenceOptions): () => void {
+  const { scope } = resolveOptions(options);
+  return store.sub(scope.stackAtom, () => {
+    saveHistory(store, options).catch((error) => {
+      console.error('Error saving history:', error);
+    });
+  });
+}
+
+/**
+ * Storage adapter for localStorage (or any Web Storage object)
+ */
+export function createLocalStorageAdapter(storage: Storage = localStorage): HistoryStorageAdapter {
+  return {
+    getItem: (key) => storage.getItem(key),
+    setItem: (key, value) => storage.setItem(key, value),
+    removeItem: (key) => storage.removeItem(key)
+  };
+}
+
+/**
+ * In-memory storage adapter, useful for tests and server-side rendering
+ */
+export function createMemoryStorageAdapter(initial: Record<string, string> = {}): HistoryStorageAdapter {
+  const items = new Map(Object.entries(initial));
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    }
+  };
+}
+
+/**
+ * Storage adapter for IndexedDB, for histories too large for localStorage
+ */
+export function createIndexedDBAdapter(
+  options: { databaseName?: string; storeName?: string } = {}
+): HistoryStorageAdapter {
+  const databaseName = options.databaseName || 'jotai-history-global';
+  const storeName = options.storeName || 'history';
+  let database: Promise<IDBDatabase> | undefined;
+
+  const openDatabase = () => {
+    if (!database) {
+      database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(databaseName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return database;
+  };
+
+  const run = <T>(mode: IDBTransactionMode, action: (objectStore: IDBObjectStore) => IDBRequest<T>) =>
+    openDatabase().then((db) => new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }));
+
+  return {
+    getItem: (key) => run('readonly', (objectStore) => objectStore.get(key))
+      .then((value) => (typeof value === 'string' ? value : null)),
+    setItem: (key, value) => run('readwrite', (objectStore) => objectStore.put(value, key))
+      .then(() => undefined),
+    removeItem: (key) => run('readwrite', (objectStore) => objectStore.delete(key))
+      .then(() => undefined)
+  };
+}
@@ -2,31 +2,348 @@
  * Types for history management system
  */
 
-import type { Atom, WritableAtom } from 'jotai';
+import type { Atom, Getter, PrimitiveAtom, SetStateAction, Setter, WritableAtom, createStore } from 'jotai/vanilla';
 
 // Interface for history entries (updated for diff-based storage)
 export interface HistoryEntry {
   id: string; // ID of the atom that was changed
   diff: unknown; // Diff of the change instead of the full value
   timestamp: number; // When the change occurred
-  fullValue?: unknown; // Optional full value for complex cases where diff can't be applied
+  fullValue?: unknown; // Full value before the change (set on checkpoints)
+  nextFullValue?: unknown; // Full value after the change (set on checkpoints)
+  label?: string; // Optional label, e.g. "Rename Layer"
+  metadata?: HistoryMetadata; // Optional data attached to the change
 }
 
+// Arbitrary data attached to a history item
+export type HistoryMetadata = Record<string, unknown>;
+
+// Label and metadata attached to recorded changes
+export interface HistoryEntryDetails {
+  label?: string;
+  metadata?: HistoryMetadata;
+}
+
+// A single undoable step: either one atom change or a grouped transaction
+export type HistoryItem = HistoryEntry | GroupHistoryOperation;
+
 // Interface for history stack
 export interface HistoryStack {
-  past: HistoryEntry[]; // Previous states
-  future: HistoryEntry[]; // States that were undone (for redo)
+  past: HistoryItem[]; // Previous states
+  future: HistoryItem[]; // States that were undone (for redo)
+  branches?: HistoryBranch[]; // Branches forking off the current line (branching scopes only)
+}
+
+// Items that were undone before a different change was made, kept by branching scopes
+export interface HistoryBranch {
+  id: string; // Identifier of the branch
+  forkIndex: number; // Number of timeline items before the branch starts
+  items: HistoryItem[]; // Items of the branch, oldest first
+  branches: HistoryBranch[]; // Branches forking off this branch
+  timestamp: number; // When the branch was left
+}
+
+// An independent history stack with its own registry of atoms
+export interface HistoryScope {
+  id: string; // Identifier of the scope
+  historyLimit: number; // Default number of entries kept per atom in this scope
+  branching: boolean; // Whether undone items are kept as branches instead of discarded
+  maxEntries?: number; // Maximum number of entries kept across all atoms
+  maxBytes?: number; // Maximum approximate size of all kept entries
+  estimateSize: (item: HistoryItem) => number; // Approximate size of a history item in bytes
+  checkpointInterval: number; // Entries per atom between checkpoints (0 disables)
+  checkpointThreshold: number; // Diff size above which a checkpoint is stored
+  stackAtom: PrimitiveAtom<HistoryStack>; // Past/future stacks of the scope
+  groupEntriesAtom: PrimitiveAtom<HistoryEntry[] | null>; // Entries of the group in progress
+  groupFramesAtom: PrimitiveAtom<number[]>; // Start offsets of nested groups in progress
+  coalescingEntryAtom: PrimitiveAtom<HistoryEntry | null>; // Latest entry later changes may merge into
+  registry: Map<string, HistoryAtomRegistration>; // Atoms recorded in this scope by ID
+  registrationListeners: Set<(registration: HistoryAtomRegistration) => void>; // Called when an atom registers
+  requireIds: boolean; // Whether atoms must be given an ID
+  duplicateIds: HistoryDuplicateIdPolicy; // Handling of reused atom IDs
+  removedIds: Set<string>; // IDs of unregistered atoms, whose entries stores drop from their stacks
+  hooksAtom: PrimitiveAtom<HistoryHooks | null>; // Event listeners and middleware, created on first use
+}
+
+// Handlers that apply custom diffs produced by `customDiff`
+export interface HistoryPatchHandlers<Value = unknown> {
+  patch?: (value: Value, diff: unknown) => Value; // Re-applies a diff (redo)
+  inversePatch?: (value: Value, diff: unknown) => Value; // Reverts a diff (undo)
+}
+
+// Options for registering an atom with a history scope
+export interface HistoryAtomRegistrationOptions<Value = unknown> extends HistoryPatchHandlers<Value> {
+  historyLimit?: number; // Number of entries kept for the atom (defaults to the scope's)
+  state?: PrimitiveAtom<Value>; // Atom holding the value, shared with atoms that later replace this one
+}
+
+// Registry record for an atom with history. The registry holds atoms weakly,
+// so `atom` is only read through registry lookups, which skip collected atoms.
+export interface HistoryAtomRegistration extends HistoryAtomRegistrationOptions {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  atom: AtomWithHistory<any>;
+}
+
+// What happens when an atom registers with an ID already used by another atom
+export type HistoryDuplicateIdPolicy = 'warn' | 'replace' | 'error';
+
+// Options for creating a history scope
+export interface HistoryScopeOptions {
+  id?: string; // Optional custom ID (default: `scope-<n>`, numbered in creation order)
+  historyLimit?: number; // Default number of entries kept per atom in this scope (default: 50)
+  branching?: boolean; // Keep undone items as branches of an undo tree (default: false)
+  maxEntries?: number; // Maximum number of entries kept across all atoms (default: unlimited)
+  maxBytes?: number; // Maximum approximate size of all kept entries in bytes (default: unlimited)
+  estimateSize?: (item: HistoryItem) => number; // Size estimator used for maxBytes
+  checkpointInterval?: number; // Entries per atom between checkpoints (default: 20, 0 disables)
+  checkpointThreshold?: number; // Diff size above which a checkpoint is stored (default: 20)
+  requireIds?: boolean; // Throw when an atom is created without an ID (default: false)
+  duplicateIds?: HistoryDuplicateIdPolicy; // Handling of reused atom IDs (default: 'warn')
+}
+
+// A Jotai store, as returned by createStore() or useStore()
+export type HistoryStore = ReturnType<typeof createStore>;
+
+// Read/write access to atoms: a store, or the get/set pair of an atom's write function
+export interface HistoryStoreAccess {
+  get: Getter;
+  set: Setter;
+}
+
+// Direction in which a history item is applied
+export type HistoryDirection = 'undo' | 'redo';
+
+// Options used when recording a change
+export interface PushToHistoryOptions {
+  historyLimit?: number;
+  useFullValueInstead?: boolean;
+  customDiff?: (prev: unknown, next: unknown) => unknown;
+  diffFormat?: HistoryDiffFormat;
+  scope?: HistoryScope;
+  getKey?: (item: unknown) => unknown;
+  checkpointInterval?: number;
+  checkpointThreshold?: number;
+  label?: (prev: unknown, next: unknown) => string | undefined;
+  mergeWindowMs?: number;
+  mergeKey?: (prev: unknown, next: unknown) => boolean;
+}
+
+// History operations bound to a single store
+export interface HistoryManager {
+  store: HistoryStore; // The store holding atom values and history state
+  pushToHistory: (
+    id: string,
+    prevValue: unknown,
+    nextValue: unknown,
+    options?: PushToHistoryOptions
+  ) => void;
+  applyHistoryItem: (item: HistoryItem, direction: HistoryDirection, scope?: HistoryScope) => boolean;
+  resolveHistoryValue: (id: string, position: number, scope?: HistoryScope) => { value: unknown } | null;
+  goToHistoryPosition: (position: number, scope?: HistoryScope) => boolean;
+  startGroupOperation: (scope?: HistoryScope) => void;
+  endGroupOperation: (scope?: HistoryScope, details?: HistoryEntryDetails) => void;
+  abortGroupOperation: (scope?: HistoryScope) => void;
+  runGroupOperation: <T>(callback: () => T, scope?: HistoryScope, details?: HistoryEntryDetails) => T;
+  breakCoalescing: (scope?: HistoryScope) => void;
+  squashHistory: (from: number, to: number, scope?: HistoryScope) => boolean;
+  undoAtom: <Value>(atom: HistoryAtom<Value>, scope?: HistoryScope) => boolean;
+  redoAtom: <Value>(atom: HistoryAtom<Value>, scope?: HistoryScope) => boolean;
+  revertEntry: (index: number, scope?: HistoryScope) => HistoryRevertResult;
+  switchBranch: (id: string, scope?: HistoryScope) => boolean;
+  applyRemoteChanges: (changes: HistorySyncChange[], scope?: HistoryScope) => boolean; // Applies other clients' changes without recording them
+  undo: (scope?: HistoryScope) => boolean; // Undoes the latest item, returns whether anything changed
+  redo: (scope?: HistoryScope) => boolean; // Redoes the latest undone item, returns whether anything changed
+  clear: (scope?: HistoryScope) => void;
+  onPush: (listener: HistoryEventListener<'push'>, scope?: HistoryScope) => () => void;
+  onUndo: (listener: HistoryEventListener<'undo'>, scope?: HistoryScope) => () => void;
+  onRedo: (listener: HistoryEventListener<'redo'>, scope?: HistoryScope) => () => void;
+  onClear: (listener: HistoryEventListener<'clear'>, scope?: HistoryScope) => () => void;
+  onEvict: (listener: HistoryEventListener<'evict'>, scope?: HistoryScope) => () => void;
+  onGroupCommit: (listener: HistoryEventListener<'groupCommit'>, scope?: HistoryScope) => () => void;
+  use: (middleware: HistoryMiddleware, scope?: HistoryScope) => () => void; // Adds a middleware, returns a function removing it
+  pauseHistory: () => void; // Stops recording changes in every scope until resumed (calls nest)
+  resumeHistory: () => void;
+  isHistoryPaused: () => boolean;
+  withoutHistory: <T>(callback: () => T) => T; // Runs a callback whose writes aren't recorded
+  setWithoutHistory: <Value, Args extends unknown[], Result>(
+    atom: AtomWithHistory<Value, Args, Result>,
+    value: Args[0],
+    options?: SetWithoutHistoryOptions
+  ) => void;
+}
+
+// Options for writing an atom without recording the change
+export interface SetWithoutHistoryOptions {
+  scope?: HistoryScope; // Scope of the atom (defaults to the global scope)
+  resetBaseline?: boolean; // Also drop the atom's entries, so its history starts from the new value
+}
+
+// Stack sizes of a scope after the change an event reports
+export interface HistoryEventBase {
+  scope: HistoryScope; // The scope whose history changed
+  pastSize: number; // Number of items in the past stack
+  futureSize: number; // Number of items in the future stack
+}
+
+// A change recorded in history (inside a group, it is recorded in the group in progress)
+export interface HistoryPushEvent extends HistoryEventBase {
+  type: 'push';
+  id: string; // ID of the changed atom
+  diff: unknown; // Recorded diff
+  label?: string;
+  entry: HistoryEntry; // The recorded entry
+  grouped: boolean; // Whether the entry was added to a group in progress
+  coalesced: boolean; // Whether the entry replaced the atom's previous entry
+}
+
+// A history item undone or redone
+export interface HistoryApplyEvent extends HistoryEventBase {
+  type: 'undo' | 'redo';
+  item: HistoryItem; // The applied item
+  entries: HistoryEntry[]; // Entries of the item with their atom IDs and diffs
+  label?: string;
+}
+
+// The history stacks were cleared
+export interface HistoryClearEvent extends HistoryEventBase {
+  type: 'clear';
+  cleared: number; // Number of items removed from both stacks
+}
+
+// Entries dropped to stay within history limits and budgets
+export interface HistoryEvictEvent extends HistoryEventBase {
+  type: 'evict';
+  entries: HistoryEntry[]; // The evicted entries, oldest first
+}
+
+// A group operation committed to history as one item
+export interface HistoryGroupCommitEvent extends HistoryEventBase {
+  type: 'groupCommit';
+  item: GroupHistoryOperation; // The committed group
+  entries: HistoryEntry[]; // Entries of the group with their atom IDs and diffs
+  label?: string;
+}
+
+// Events emitted by the history manager, by type
+export interface HistoryEventMap {
+  push: HistoryPushEvent;
+  undo: HistoryApplyEvent;
+  redo: HistoryApplyEvent;
+  clear: HistoryClearEvent;
+  evict: HistoryEvictEvent;
+  groupCommit: HistoryGroupCommitEvent;
+}
+
+export type HistoryEventType = keyof HistoryEventMap;
+
+export type HistoryEventListener<Type extends HistoryEventType> = (event: HistoryEventMap[Type]) => void;
+
+// Information about the change a middleware receives along with its entry
+export interface HistoryMiddlewareContext {
+  scope: HistoryScope; // The scope recording the change
+  prevValue: unknown; // Value before the change
+  nextValue: unknown; // Value after the change
+  grouped: boolean; // Whether the entry will be added to a group in progress
+}
+
+/**
+ * Inspects an entry before it is recorded. Call `next` with the entry (or a
+ * transformed copy) to continue the chain, or return null to veto recording.
+ */
+export type HistoryMiddleware = (
+  entry: HistoryEntry,
+  next: (entry: HistoryEntry) => HistoryEntry | null,
+  context: HistoryMiddlewareContext
+) => HistoryEntry | null;
+
+// Event listeners and middleware of a scope within one store
+export interface HistoryHooks {
+  listeners: { [Type in HistoryEventType]: Set<HistoryEventListener<Type>> };
+  middleware: HistoryMiddleware[]; // Run in the order they were added
+}
+
+// A later change that touched the same part of an atom as the item being reverted
+export interface HistoryConflict {
+  id: string; // ID of the atom
+  path: string[]; // Path within the atom's value changed by both ([] is the whole value)
+  index: number; // Index of the later item in the past stack
+}
+
+// Framework-agnostic history controls for one store and scope
+export interface HistoryController {
+  store: HistoryStore; // The store holding the history
+  scope: HistoryScope; // The controlled scope
+  undo: () => boolean; // Undoes the latest item, returns whether anything changed
+  redo: () => boolean; // Redoes the latest undone item, returns whether anything changed
+  clear: () => void;
+  group: <T>(callback: () => T, label?: string, metadata?: HistoryMetadata) => T; // Records one undo step
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  undoLabel: () => string | undefined; // Label of the item undo would revert
+  redoLabel: () => string | undefined; // Label of the item redo would reapply
+  breakCoalescing: () => void;
+  undoAtom: <Value>(atom: HistoryAtom<Value>) => boolean;
+  redoAtom: <Value>(atom: HistoryAtom<Value>) => boolean;
+  revertEntry: (index: number) => HistoryRevertResult;
+  subscribe: (listener: () => void) => () => void; // Called when the stacks change, returns an unsubscribe function
+}
+
+// Keyboard shortcuts such as "mod+z" ("mod" is Cmd on Mac and Ctrl elsewhere)
+export interface HistoryHotkeyBindings {
+  undo?: string[]; // Default: ['mod+z']
+  redo?: string[]; // Default: ['mod+shift+z', 'ctrl+y']
+}
+
+// Options for binding undo/redo shortcuts
+export interface HistoryHotkeysOptions {
+  scope?: HistoryScope; // Scope to undo/redo (hook only, defaults to the global scope)
+  target?: EventTarget | null; // Element receiving keydown events (default: window)
+  bindings?: HistoryHotkeyBindings; // Shortcuts replacing the defaults
+  ignoreEditable?: boolean | ((target: EventTarget | null) => boolean); // Skip events from text fields (default: true)
+  preventDefault?: boolean; // Prevent the browser's handling of matched shortcuts (default: true)
+  enabled?: boolean; // Whether shortcuts are active (hook only, default: true)
+  isMac?: boolean; // Overrides platform detection for "mod"
+}
+
+// Summary of an undo tree branch, for branch lists
+export interface HistoryBranchSummary {
+  id: string; // ID of the branch
+  parentId: string | null; // Branch it forks off, or null for the current line
+  forkIndex: number; // Number of timeline items before the branch starts
+  size: number; // Number of items in the branch
+  timestamp: number; // When the branch was left
+  label?: string; // Label of the branch's first item
+}
+
+// State returned by useHistoryBranches
+export interface HistoryBranchesState {
+  branches: HistoryBranchSummary[]; // All branches, depth first
+  switchBranch: (id: string) => void; // Switches to a branch and applies its changes
+}
+
+// Result of reverting a single history item
+export interface HistoryRevertResult {
+  reverted: boolean; // Whether the item was reverted
+  conflicts: HistoryConflict[]; // Later changes that prevented the revert
 }
 
 // Interface for the atom with history
-export interface AtomWithHistory<Value> extends WritableAtom<Value, [Value], void> {
+export interface AtomWithHistory<Value, Args extends unknown[] = [SetStateAction<Value>], Result = void>
+  extends WritableAtom<Value, Args, Result> {
   id: string; // Unique identifier for the atom
 }
 
-// Type for group operations
+// An atom with history, whatever arguments its setter takes
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type HistoryAtom<Value = unknown> = AtomWithHistory<Value, any[], any>;
+
+// Type for group operations (undone and redone as a single step)
 export interface GroupHistoryOperation {
   type: 'group';
-  operations: HistoryEntry[];
+  operations: HistoryEntry[]; // Entries in the order they were recorded
+  timestamp: number; // When the group was committed
+  label?: string; // Optional label of the whole group
+  metadata?: HistoryMetadata; // Optional data attached to the group
 }
 
 // Custom atom config
@@ -35,8 +352,38 @@ export interface AtomWithHistoryOptions<Value> {
   historyLimit?: number; // Maximum number of history entries to keep per atom
   shouldTrack?: (prev: Value, next: Value) => boolean; // Function to determine if a change should be tracked
   customDiff?: (prev: Value, next: Value) => unknown; // Custom diff function
-  customPatch?: (value: Value, diff: unknown) => Value; // Custom patch function
+  customPatch?: (value: Value, diff: unknown) => Value; // Custom patch function, applies a custom diff on redo
+  customInversePatch?: (value: Value, diff: unknown) => Value; // Reverts a custom diff on undo
   useFullValueInstead?: boolean; // Force using full value instead of diff
+  diffFormat?: HistoryDiffFormat; // Format of recorded diffs (default: 'diff')
+  scope?: HistoryScope; // History scope to record in (defaults to the global scope)
+  getKey?: (item: unknown) => unknown; // Identifies array items for minimal array diffs
+  checkpointInterval?: number; // Entries between checkpoints (defaults to the scope's)
+  checkpointThreshold?: number; // Diff size above which a checkpoint is stored (defaults to the scope's)
+  label?: (prev: Value, next: Value) => string | undefined; // Default label for changes of this atom
+  mergeWindowMs?: number; // Merge changes made within this many ms of the atom's previous change
+  mergeKey?: (prev: Value, next: Value) => boolean; // Whether a change may merge into the atom's previous change
+}
+
+// Options for adding history to an existing writable atom
+export interface WithHistoryOptions<Value, Args extends unknown[] = [Value]> extends AtomWithHistoryOptions<Value> {
+  restore?: (value: Value) => Args; // Setter arguments that write a value on undo/redo (default: [value])
+}
+
+// Options for a family of atoms with history
+export interface AtomFamilyWithHistoryOptions<Param, Value, Args extends unknown[] = [Value]>
+  extends Omit<WithHistoryOptions<Value, Args>, 'id'> {
+  id?: string; // Family ID, members get the ID `${id}:${paramKey}`
+  getParamKey?: (param: Param) => string; // Stable key of a param (default: JSON.stringify, strings as is)
+  areEqual?: (a: Param, b: Param) => boolean; // Param comparison (default: Object.is)
+}
+
+// A family of atoms with history, created with atomFamilyWithHistory
+export interface AtomFamilyWithHistory<Param, Value, Args extends unknown[], Result> {
+  (param: Param): AtomWithHistory<Value, Args, Result>; // Gets or creates the member for a param
+  getParams: () => Iterable<Param>;
+  remove: (param: Param) => void; // Removes a member and unregisters it from history
+  setShouldRemove: (shouldRemove: ((createdAt: number, param: Param) => boolean) | null) => void;
 }
 
 // Hook return type
@@ -45,8 +392,33 @@ export interface HistoryActions {
   redo: () => void;
   canUndo: boolean;
   canRedo: boolean;
+  undoLabel?: string; // Label of the item undo would revert
+  redoLabel?: string; // Label of the item redo would reapply
   clear: () => void;
-  groupOperations: (callback: () => void) => void;
+  breakCoalescing: () => void; // Stops merging further changes into the latest entry (e.g. on blur or Enter)
+  undoAtom: <Value>(atom: HistoryAtom<Value>) => boolean; // Undoes only the atom's latest change
+  redoAtom: <Value>(atom: HistoryAtom<Value>) => boolean; // Redoes only the atom's latest undone change
+  revertEntry: (index: number) => HistoryRevertResult; // Reverts one past item on top of the current state
+  groupOperations: <T>(callback: () => T, label?: string, metadata?: HistoryMetadata) => T; // Resolves after async callbacks, rolls back on error
+}
+
+// Summary of a history item for history panels
+export interface HistoryEntrySummary {
+  index: number; // Position in the timeline, oldest first
+  ids: string[]; // IDs of the atoms changed by the item
+  timestamp: number; // When the item was recorded (or last undone/redone)
+  size: number; // Number of changes recorded by the item
+  label?: string; // Label of the item
+  metadata?: HistoryMetadata; // Data attached to the item
+  isGroup: boolean; // Whether the item is a group operation
+  isApplied: boolean; // Whether the item is in the past (true) or the future (false)
+}
+
+// Hook return type for browsing the history timeline
+export interface HistoryEntriesState {
+  entries: HistoryEntrySummary[]; // Past items followed by future items in redo order
+  currentIndex: number; // Number of applied items (past.length)
+  goTo: (index: number) => void; // Applies exactly the first `index` entries
 }
 
 // Diff representation
@@ -55,11 +427,19 @@ export interface ObjectDiff {
   changed: Record<string, unknown>; // Changed properties
   added: Record<string, unknown>; // Added properties
   deleted: string[]; // Deleted properties
+  deletedValues: Record<string, unknown>; // Values of deleted properties before deletion
 }
 
+// Array diff operation, applied in order to the array produced by the previous one
+export type ArrayDiffItem =
+  | { op: 'insert'; index: number; value: unknown }
+  | { op: 'remove'; index: number; value: unknown } // value is the removed item
+  | { op: 'replace'; index: number; value: unknown; oldValue: unknown }
+  | { op: 'move'; from: number; to: number };
+
 export interface ArrayDiff {
   type: 'array';
-  items: Array<{ index: number, value?: unknown, removed?: boolean, added?: boolean }>;
+  items: ArrayDiffItem[];
 }
 
 export interface ValueDiff {
@@ -68,4 +448,140 @@ export interface ValueDiff {
   after: unknown;
 }
 
-export type Diff = ObjectDiff | ArrayDiff | ValueDiff; 
\ No newline at end of file
+// Diff of a Map. Keys may be of any type; values of changed keys are diffed.
+export interface MapDiff {
+  type: 'map';
+  changed: Array<[unknown, Diff]>; // Diffs of values whose key exists on both sides
+  added: Array<[unknown, unknown]>; // Added entries
+  deleted: Array<[unknown, unknown]>; // Deleted entries with their values before deletion
+}
+
+// Diff of a Set, whose members are compared by identity
+export interface SetDiff {
+  type: 'set';
+  added: unknown[];
+  deleted: unknown[];
+}
+
+// Diff produced by a registered type handler
+export interface TypeHandlerDiff {
+  type: 'custom';
+  handler: string; // Name of the handler that created the diff
+  diff: unknown; // The handler's own diff
+}
+
+export type Diff = ObjectDiff | ArrayDiff | ValueDiff | MapDiff | SetDiff | TypeHandlerDiff;
+
+// A JSON Patch (RFC 6902) operation
+export type JsonPatchOperation =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'move' | 'copy'; from: string; path: string };
+
+// Format of the diffs recorded for an atom: the built-in diff or a JSON Patch
+export type HistoryDiffFormat = 'diff' | 'json-patch';
+
+// Diffs, applies and reverses changes to values of one type, e.g. instances of a class
+export interface DiffTypeHandler<Value = unknown, TypeDiff = unknown> {
+  name: string; // Unique name, recorded in the diffs so they can be applied later
+  test: (value: unknown) => boolean; // Whether the handler is responsible for a value
+  diff: (oldValue: Value, newValue: Value) => TypeDiff | null; // null if nothing changed
+  apply: (value: Value, diff: TypeDiff) => Value;
+  reverse: (diff: TypeDiff) => TypeDiff;
+  compose?: (first: TypeDiff, second: TypeDiff) => TypeDiff | null; // Enables squashing; null if they cancel out
+  size?: (diff: TypeDiff) => number; // Number of changes in a diff (default: 1)
+}
+
+// Options for computing diffs
+export interface DiffOptions {
+  // Identifies array items so that reordered or edited items are matched as
+  // moves/replacements; items without a key are compared by identity
+  getKey?: (item: unknown) => unknown;
+}
+
+// Key-value storage used to persist history; methods may be sync or async
+export interface HistoryStorageAdapter {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+}
+
+// Converts values that JSON can't represent into JSON data and back
+export interface HistoryValueSerializer {
+  type: string; // Name stored with the serialized data
+  test: (value: unknown) => boolean; // Whether this serializer handles a value
+  serialize: (value: unknown) => unknown; // May return nested values, which are encoded too
+  deserialize: (data: unknown) => unknown;
+}
+
+// Versioned JSON format of a persisted history scope
+export interface PersistedHistory {
+  version: number; // Schema version the data was written with
+  scope: string; // ID of the persisted scope
+  stack: unknown; // Encoded past/future stacks
+  values: Record<string, unknown>; // Encoded current values by atom ID
+}
+
+// Options for saving and restoring history
+export interface HistoryPersistenceOptions {
+  storage: HistoryStorageAdapter; // Where the history is saved
+  key?: string; // Storage key (defaults to one derived from the scope ID)
+  scope?: HistoryScope; // Scope to persist (defaults to the global scope)
+  serializers?: HistoryValueSerializer[]; // Serializers for non-JSON values, tried before the built-in ones
+  version?: number; // Current schema version (default: 1)
+  migrations?: Record<number, (data: PersistedHistory) => PersistedHistory>; // Upgrades data from the keyed version to the next
+}
+
+
+// A change sent to or received from other clients of a synced scope
+export interface HistorySyncChange {
+  entry: HistoryEntry; // The entry, matched to an atom by its ID
+  direction: HistoryDirection; // 'redo' applies the change, 'undo' reverts it
+}
+
+// Message exchanged between clients of a synced scope
+export interface HistorySyncMessage {
+  source: string; // ID of the client that made the changes
+  scope: string; // ID of the scope the changes belong to
+  changes: HistorySyncChange[]; // Changes in the order they are applied
+}
+
+// Delivers sync messages between clients (tabs, windows, servers)
+export interface HistorySyncTransport {
+  send: (message: HistorySyncMessage) => void; // Delivers a message to every other client
+  subscribe: (listener: (message: HistorySyncMessage) => void) => () => void; // Returns an unsubscribe function
+}
+
+// Options for syncing a history scope between clients
+export interface HistorySyncOptions {
+  transport: HistorySyncTransport; // How messages are sent and received
+  scope?: HistoryScope; // Scope to sync (defaults to the global scope)
+  clientId?: string; // ID of this client (defaults to a random one)
+}
+
+// Message sent by Redux DevTools, e.g. when an action is jumped to or skipped
+export interface ReduxDevToolsMessage {
+  type: string; // 'DISPATCH' for commands
+  payload?: { type: string; actionId?: number; id?: number }; // The command, e.g. JUMP_TO_ACTION
+  state?: string;
+}
+
+// Connection to a Redux DevTools instance
+export interface ReduxDevToolsConnection {
+  init: (state: unknown) => void;
+  send: (action: { type: string; [key: string]: unknown }, state: unknown) => void;
+  subscribe: (listener: (message: ReduxDevToolsMessage) => void) => (() => void) | void;
+  unsubscribe?: () => void;
+}
+
+// The Redux DevTools browser extension (`window.__REDUX_DEVTOOLS_EXTENSION__`)
+export interface ReduxDevToolsExtension {
+  connect: (options?: { name?: string }) => ReduxDevToolsConnection;
+}
+
+// Options for connecting a history scope to Redux DevTools
+export interface HistoryDevToolsOptions {
+  scope?: HistoryScope; // Scope to inspect (defaults to the global scope)
+  name?: string; // Instance name shown in DevTools (defaults to the scope ID)
+  extension?: ReduxDevToolsExtension; // Defaults to `window.__REDUX_DEVTOOLS_EXTENSION__`
+}
@@ -0,0 +1,52 @@
+/**
+ * useHistoryBranches Hook
+ * 
+ * React hook for listing the branches of an undo tree and switching between them
+ */
+
+import { useAtomValue, useStore } from 'jotai';
+import { useCallback, useMemo } from 'react';
+import type { HistoryBranch, HistoryBranchesState, HistoryBranchSummary, HistoryScope } from './types';
+import { defaultHistoryScope, getHistoryItemLabel, getHistoryManager } from './historyManager';
+
+/**
+ * Summarizes branches and the branches forking off them, depth first
+ */
+function summarizeBranches(branches: HistoryBranch[], parentId: string | null): HistoryBranchSummary[] {
+  return branches.flatMap((branch) => [
+    {
+      id: branch.id,
+      parentId,
+      forkIndex: branch.forkIndex,
+      size: branch.items.length,
+      timestamp: branch.timestamp,
+      label: getHistoryItemLabel(branch.items[0])
+    },
+    ...summarizeBranches(branch.branches, branch.id)
+  ]);
+}
+
+/**
+ * Hook to list the branches of a branching scope and switch between them
+ * 
+ * @param scope - A scope created with `branching: true` (defaults to the global scope)
+ * @returns The branches and switchBranch
+ */
+export function useHistoryBranches(scope: HistoryScope = defaultHistoryScope): HistoryBranchesState {
+  const manager = getHistoryManager(useStore());
+  const { branches } = useAtomValue(scope.stackAtom, { store: manager.store });
+  
+  const summaries = useMemo(() => summarizeBranches(branches || [], null), [branches]);
+  
+  /**
+   * Switches to a branch, keeping the current line as a branch
+   */
+  const switchBranch = useCallback((id: string) => {
+    manager.switchBranch(id, scope);
+  }, [manager, scope]);
+  
+  return {
+    branches: summaries,
+    switchBranch
+  };
+}
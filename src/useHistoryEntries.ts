@@ -0,0 +1,66 @@
+/**
+ * useHistoryEntries Hook
+ * 
+ * React hook for listing history items and jumping between them
+ */
+
+import { useAtomValue, useStore } from 'jotai';
+import { useCallback, useMemo } from 'react';
+import type { Diff, HistoryEntriesState, HistoryEntrySummary, HistoryItem, HistoryScope } from './types';
+import {
+  defaultHistoryScope,
+  flattenHistoryItems,
+  getHistoryItemLabel,
+  getHistoryManager,
+  isGroupHistoryOperation
+} from './historyManager';
+import { getDiffSize } from './diffUtils';
+
+/**
+ * Summarizes a history item for display
+ */
+function summarizeItem(item: HistoryItem, index: number, isApplied: boolean): HistoryEntrySummary {
+  const entries = flattenHistoryItems([item]);
+  return {
+    index,
+    ids: [...new Set(entries.map((entry) => entry.id))],
+    timestamp: item.timestamp,
+    size: entries.reduce((size, entry) => {
+      const diff = entry.diff as Diff | null;
+      return size + (diff && typeof diff === 'object' && 'type' in diff ? getDiffSize(diff) : 1);
+    }, 0),
+    label: getHistoryItemLabel(item),
+    metadata: item.metadata,
+    isGroup: isGroupHistoryOperation(item),
+    isApplied
+  };
+}
+
+/**
+ * Hook to list the items of a history scope and jump to any of them
+ * 
+ * @param scope - The history scope to browse (defaults to the global scope)
+ * @returns The ordered entries, the current position and goTo
+ */
+export function useHistoryEntries(scope: HistoryScope = defaultHistoryScope): HistoryEntriesState {
+  const manager = getHistoryManager(useStore());
+  const { past, future } = useAtomValue(scope.stackAtom, { store: manager.store });
+  
+  const entries = useMemo(() => [
+    ...past.map((item, index) => summarizeItem(item, index, true)),
+    ...[...future].reverse().map((item, index) => summarizeItem(item, past.length + index, false))
+  ], [past, future]);
+  
+  /**
+   * Undoes or redoes until exactly `index` entries are applied
+   */
+  const goTo = useCallback((index: number) => {
+    manager.goToHistoryPosition(index, scope);
+  }, [manager, scope]);
+  
+  return {
+    entries,
+    currentIndex: past.length,
+    goTo
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * useHistoryHotkeys Hook
+ * 
+ * React hook binding undo/redo keyboard shortcuts
+ */
+
+import { useStore } from 'jotai';
+import { useEffect } from 'react';
+import type { HistoryHotkeysOptions } from './types';
+import { defaultHistoryScope } from './historyManager';
+import { createHistoryController } from './historyController';
+import { bindHistoryHotkeys } from './historyHotkeys';
+
+/**
+ * Hook to undo/redo the current store's history with keyboard shortcuts
+ * (Cmd/Ctrl+Z, Cmd/Ctrl+Shift+Z and Ctrl+Y by default)
+ * 
+ * @param options - Scope, bindings, target element and ignore rules. Pass a stable
+ *   `ignoreEditable` function (e.g. from useCallback), as a new one rebinds the listener.
+ */
+export function useHistoryHotkeys(options: HistoryHotkeysOptions = {}): void {
+  const store = useStore();
+  const {
+    scope = defaultHistoryScope,
+    target,
+    enabled = true,
+    bindings,
+    ignoreEditable,
+    preventDefault,
+    isMac
+  } = options;
+  
+  // Compare bindings by content, so inline binding objects don't rebind the listener on every render
+  const bindingsKey = JSON.stringify(bindings);
+  
+  useEffect(() => {
+    if (!enabled) return;
+    const controller = createHistoryController(store, scope);
+    return bindHistoryHotkeys(controller, { target, bindings, ignoreEditable, preventDefault, isMac });
+  }, [store, scope, target, enabled, bindingsKey, ignoreEditable, preventDefault, isMac]);
+}
@@ -0,0 +1,133 @@
+/**
+ * Framework-agnostic entry point (jotai-history-global/vanilla)
+ * 
+ * Everything except the React hooks, for use in services, menu handlers and
+ * Node scripts without importing React.
+ */
+
+export { atomWithHistory, withHistory, getAtomValue, setAtomValue } from './atomWithHistory';
+export { atomFamilyWithHistory } from './atomFamilyWithHistory';
+export { createHistoryController } from './historyController';
+export { bindHistoryHotkeys, isEditableTarget, DEFAULT_HISTORY_HOTKEYS } from './historyHotkeys';
+export {
+  historyStore,
+  addHistoryMiddleware,
+  applyRemoteChanges,
+  breakCoalescing,
+  createHistoryScope,
+  createHistoryManager,
+  estimateHistoryItemSize,
+  defaultHistoryScope,
+  getHistoryManager,
+  getHistoryItemLabel,
+  isHistoryPaused,
+  onHistoryEvent,
+  pauseHistory,
+  registerHistoryAtom,
+  redoAtom,
+  resolveHistoryAtomId,
+  resumeHistory,
+  revertEntry,
+  setWithoutHistory,
+  squashHistory,
+  switchHistoryBranch,
+  undoAtom,
+  unregisterHistoryAtom,
+  withLabel,
+  withoutHistory
+} from './historyManager';
+export {
+  createDiff,
+  applyDiff,
+  reverseDiff,
+  composeDiff,
+  getDiffSize,
+  registerDiffTypeHandler
+} from './diffUtils';
+export { toJsonPatch, fromJsonPatch, applyJsonPatch, invertJsonPatch } from './jsonPatch';
+export { connectHistoryDevTools } from './historyDevTools';
+export { syncHistory, createBroadcastChannelTransport, createMemorySyncHub } from './historySync';
+export {
+  HISTORY_SCHEMA_VERSION,
+  serializeHistory,
+  restoreHistory,
+  saveHistory,
+  loadHistory,
+  persistHistory,
+  createLocalStorageAdapter,
+  createMemoryStorageAdapter,
+  createIndexedDBAdapter
+} from './persistence';
+export type { 
+  AtomFamilyWithHistory,
+  AtomFamilyWithHistoryOptions,
+  AtomWithHistory, 
+  AtomWithHistoryOptions, 
+  HistoryActions, 
+  HistoryApplyEvent,
+  HistoryAtom,
+  HistoryAtomRegistration,
+  HistoryAtomRegistrationOptions,
+  HistoryBranch,
+  HistoryBranchesState,
+  HistoryBranchSummary,
+  HistoryClearEvent,
+  HistoryConflict,
+  HistoryController,
+  HistoryDirection,
+  HistoryDuplicateIdPolicy,
+  HistoryEntry, 
+  HistoryEntryDetails,
+  HistoryEntriesState,
+  HistoryEventBase,
+  HistoryEventListener,
+  HistoryEventMap,
+  HistoryEventType,
+  HistoryEvictEvent,
+  HistoryGroupCommitEvent,
+  HistoryHooks,
+  HistoryHotkeyBindings,
+  HistoryHotkeysOptions,
+  HistoryEntrySummary,
+  HistoryItem,
+  HistoryManager,
+  HistoryMetadata,
+  HistoryMiddleware,
+  HistoryMiddlewareContext,
+  HistoryPatchHandlers,
+  HistoryPersistenceOptions,
+  HistoryPushEvent,
+  HistoryRevertResult,
+  HistoryScope,
+  HistoryScopeOptions,
+  HistoryStack,
+  HistoryStorageAdapter,
+  HistoryStore,
+  HistoryStoreAccess,
+  HistorySyncChange,
+  HistorySyncMessage,
+  HistorySyncOptions,
+  HistorySyncTransport,
+  HistoryValueSerializer,
+  PersistedHistory,
+  PushToHistoryOptions,
+  GroupHistoryOperation,
+  Diff,
+  DiffOptions,
+  ObjectDiff,
+  ArrayDiff,
+  ArrayDiffItem,
+  ValueDiff,
+  MapDiff,
+  SetDiff,
+  TypeHandlerDiff,
+  DiffTypeHandler,
+  JsonPatchOperation,
+  HistoryDiffFormat,
+  HistoryDevToolsOptions,
+  SetWithoutHistoryOptions,
+  ReduxDevToolsConnection,
+  ReduxDevToolsExtension,
+  ReduxDevToolsMessage,
+  WithHistoryOptions
+} from './types'; 
\ No newline at end of file
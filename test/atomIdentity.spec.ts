@@ -0,0 +1,105 @@
+import { createStore } from 'jotai/vanilla';
+import { atomWithHistory, createHistoryScope, getHistoryManager, unregisterHistoryAtom } from '../src';
+
+describe('atom identity and registry lifecycle', () => {
+  it('should derive stable IDs from the scope and creation order', () => {
+    const scope = createHistoryScope({ id: 'derived' });
+    const first = atomWithHistory(0, { scope });
+    const second = atomWithHistory(0, { scope });
+
+    expect([first.id, second.id]).toEqual(['derived:1', 'derived:2']);
+  });
+
+  it('should derive the same IDs when the modules are loaded again', () => {
+    // A reload evaluates the modules again, with fresh module state
+    const loadIds = () => {
+      let ids: string[] = [];
+      jest.isolateModules(() => {
+        const { atomWithHistory: create, createHistoryScope: createScope } = require('../src') as typeof import('../src');
+        const scope = createScope();
+        ids = [scope.id, create(0, { scope }).id, create(0).id];
+      });
+      return ids;
+    };
+
+    const ids = loadIds();
+    expect(ids).toEqual(['scope-1', 'scope-1:1', 'global:1']);
+    expect(loadIds()).toEqual(ids);
+  });
+
+  it('should require IDs when the scope asks for them', () => {
+    const scope = createHistoryScope({ requireIds: true });
+    expect(() => atomWithHistory(0, { scope })).toThrow('must be given an id');
+  });
+
+  it('should detect duplicate IDs', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const warnScope = createHistoryScope();
+    atomWithHistory(0, { id: 'dup', scope: warnScope });
+    atomWithHistory(0, { id: 'dup', scope: warnScope });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('"dup" is already registered'));
+    warn.mockRestore();
+
+    const errorScope = createHistoryScope({ duplicateIds: 'error' });
+    atomWithHistory(0, { id: 'dup', scope: errorScope });
+    expect(() => atomWithHistory(0, { id: 'dup', scope: errorScope })).toThrow();
+  });
+
+  it('should move history and value to an atom re-created with the same ID', () => {
+    const scope = createHistoryScope({ duplicateIds: 'replace' });
+    const store = createStore();
+    const staleAtom = atomWithHistory('a', { id: 'title', scope });
+    store.set(staleAtom, 'b');
+
+    // Hot module reload evaluates the module again
+    const freshAtom = atomWithHistory('a', { id: 'title', scope });
+    expect(store.get(freshAtom)).toBe('b');
+
+    getHistoryManager(store).undo(scope);
+    expect(store.get(freshAtom)).toBe('a');
+  });
+
+  it('should drop the history of unregistered atoms from every store', () => {
+    const scope = createHistoryScope();
+    const keptAtom = atomWithHistory(0, { scope });
+    const removedAtom = atomWithHistory(0, { scope });
+    const stores = [createStore(), createStore()];
+    for (const store of stores) {
+      store.set(keptAtom, 1);
+      store.set(removedAtom, 1);
+      getHistoryManager(store).runGroupOperation(() => {
+        store.set(keptAtom, 2);
+        store.set(removedAtom, 2);
+      }, scope);
+    }
+
+    unregisterHistoryAtom(removedAtom, scope);
+    for (const store of stores) {
+      expect(getHistoryManager(store).undo(scope)).toBe(true);
+      expect(store.get(keptAtom)).toBe(1);
+      expect(store.get(scope.stackAtom).past).toEqual([expect.objectContaining({ id: keptAtom.id })]);
+    }
+  });
+
+  it('should drop unregistered atoms from branches and keep their forks in place', () => {
+    const scope = createHistoryScope({ branching: true });
+    const keptAtom = atomWithHistory(0, { scope });
+    const removedAtom = atomWithHistory(0, { scope });
+    const store = createStore();
+    const manager = getHistoryManager(store);
+    store.set(removedAtom, 1);
+    store.set(keptAtom, 1);
+    store.set(keptAtom, 2);
+    manager.goToHistoryPosition(2, scope);
+    store.set(keptAtom, 5);
+
+    unregisterHistoryAtom(removedAtom, scope);
+    manager.undo(scope);
+    const { past, branches } = store.get(scope.stackAtom);
+    expect(past).toHaveLength(1);
+    expect(branches).toEqual([expect.objectContaining({ forkIndex: 1 })]);
+
+    expect(manager.switchBranch(branches![0].id, scope)).toBe(true);
+    expect(store.get(keptAtom)).toBe(2);
+  });
+});
@@ -0,0 +1,75 @@
+import { createStore } from 'jotai/vanilla';
+import { atomWithHistory, createHistoryScope, getHistoryManager } from '../src';
+
+describe('branching undo tree', () => {
+  const scope = createHistoryScope({ id: 'tree', branching: true });
+  const countAtom = atomWithHistory(0, { id: 'tree-count', scope });
+
+  const setup = () => {
+    const store = createStore();
+    const manager = getHistoryManager(store);
+    for (let i = 1; i <= 5; i++) {
+      store.set(countAtom, i);
+    }
+    manager.goToHistoryPosition(2, scope);
+    store.set(countAtom, 10);
+    return { store, manager };
+  };
+
+  it('should keep undone items as a branch when a new change is made', () => {
+    const { store } = setup();
+    const { past, future, branches } = store.get(scope.stackAtom);
+
+    expect(past).toHaveLength(3);
+    expect(future).toHaveLength(0);
+    expect(branches).toEqual([expect.objectContaining({ forkIndex: 2, branches: [] })]);
+    expect(branches![0].items).toHaveLength(3);
+  });
+
+  it('should switch between branches and keep undo/redo linear on the current one', () => {
+    const { store, manager } = setup();
+    const [branch] = store.get(scope.stackAtom).branches!;
+
+    expect(manager.switchBranch(branch.id, scope)).toBe(true);
+    expect(store.get(countAtom)).toBe(5);
+    expect(store.get(scope.stackAtom).past).toHaveLength(5);
+
+    const [previous] = store.get(scope.stackAtom).branches!;
+    expect(previous).toMatchObject({ forkIndex: 2 });
+    expect(previous.items).toHaveLength(1);
+
+    manager.goToHistoryPosition(4, scope);
+    expect(store.get(countAtom)).toBe(4);
+    expect(manager.switchBranch(previous.id, scope)).toBe(true);
+    expect(store.get(countAtom)).toBe(10);
+  });
+
+  it('should switch to a branch that forks off another branch', () => {
+    const { store, manager } = setup();
+    const [first] = store.get(scope.stackAtom).branches!;
+    manager.switchBranch(first.id, scope);
+    manager.goToHistoryPosition(4, scope);
+    store.set(countAtom, 30);
+
+    // Leaving the line 1, 2, 3, 4, 30 nests the branch holding 5 inside it
+    const ten = store.get(scope.stackAtom).branches!.find((branch) => branch.forkIndex === 2)!;
+    manager.switchBranch(ten.id, scope);
+    const [left] = store.get(scope.stackAtom).branches!;
+    expect(left.branches).toEqual([expect.objectContaining({ forkIndex: 4 })]);
+
+    expect(manager.switchBranch(left.branches[0].id, scope)).toBe(true);
+    expect(store.get(countAtom)).toBe(5);
+    expect(store.get(scope.stackAtom).past).toHaveLength(5);
+  });
+
+  it('should discard undone items in linear scopes', () => {
+    const linearScope = createHistoryScope();
+    const linearAtom = atomWithHistory(0, { scope: linearScope });
+    const store = createStore();
+    store.set(linearAtom, 1);
+    getHistoryManager(store).goToHistoryPosition(0, linearScope);
+    store.set(linearAtom, 2);
+
+    expect(store.get(linearScope.stackAtom)).toEqual({ past: [expect.anything()], future: [] });
+  });
+});
@@ -0,0 +1,94 @@
+import { createStore } from 'jotai/vanilla';
+import { atomWithHistory, getHistoryManager } from '../src';
+import { historyStackAtom } from '../src/historyManager';
+
+describe('coalescing', () => {
+  const textAtom = atomWithHistory('', { id: 'coalesce-text', mergeWindowMs: 500 });
+  const wordAtom = atomWithHistory('', {
+    id: 'coalesce-word',
+    // Typing merges until a space starts a new word
+    mergeKey: (_prev, next) => !next.endsWith(' ')
+  });
+  const otherAtom = atomWithHistory(0, { id: 'coalesce-other' });
+
+  let now = 0;
+  beforeEach(() => {
+    now = 1000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  const type = (store: ReturnType<typeof createStore>, text: string, delay = 100) => {
+    for (const char of text) {
+      now += delay;
+      store.set(textAtom, store.get(textAtom) + char);
+    }
+  };
+
+  it('should merge changes made within the merge window into one entry', () => {
+    const store = createStore();
+    type(store, 'hello');
+    type(store, ' world', 1000);
+
+    const { past } = store.get(historyStackAtom);
+    expect(past).toHaveLength(7);
+    expect(past[0]).toMatchObject({ diff: { type: 'value', before: '', after: 'hello' } });
+
+    getHistoryManager(store).applyHistoryItem(past[6], 'undo');
+    expect(store.get(textAtom)).toBe('hello worl');
+  });
+
+  it('should start a new entry after breakCoalescing or another atom changes', () => {
+    const store = createStore();
+    const manager = getHistoryManager(store);
+    type(store, 'ab');
+    manager.breakCoalescing();
+    type(store, 'cd');
+    store.set(otherAtom, 1);
+    type(store, 'ef');
+
+    const { past } = store.get(historyStackAtom);
+    expect(past).toHaveLength(4);
+    expect(past.map((item) => 'id' in item && item.id)).toEqual([
+      'coalesce-text', 'coalesce-text', 'coalesce-other', 'coalesce-text'
+    ]);
+  });
+
+  it('should merge while mergeKey allows it', () => {
+    const store = createStore();
+    for (const char of 'one two') {
+      store.set(wordAtom, store.get(wordAtom) + char);
+    }
+
+    const { past } = store.get(historyStackAtom);
+    expect(past).toHaveLength(2);
+    expect(past[0]).toMatchObject({ diff: { type: 'value', before: '', after: 'one' } });
+    expect(past[1]).toMatchObject({ diff: { type: 'value', before: 'one', after: 'one two' } });
+  });
+
+  it('should not merge into entries from before an aborted nested group', () => {
+    const store = createStore();
+    const manager = getHistoryManager(store);
+
+    manager.runGroupOperation(() => {
+      type(store, 'a');
+      expect(() => manager.runGroupOperation(() => {
+        type(store, 'b');
+        throw new Error('abort');
+      })).toThrow('abort');
+      expect(store.get(textAtom)).toBe('a');
+    });
+
+    expect(store.get(textAtom)).toBe('a');
+    manager.undo();
+    expect(store.get(textAtom)).toBe('');
+  });
+
+  it('should drop the entry when merged changes cancel out', () => {
+    const store = createStore();
+    type(store, 'x');
+    store.set(textAtom, '');
+
+    expect(store.get(historyStackAtom).past).toHaveLength(0);
+  });
+});
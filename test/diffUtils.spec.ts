@@ -0,0 +1,164 @@
+import { applyDiff, composeDiff, createDiff, reverseDiff } from '../src';
+
+type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
+
+// Small seeded PRNG so failures can be reproduced from the printed seed
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Object keys, including names Object.prototype also has. (Not `constructor`,
+// which toStrictEqual reads to compare types.)
+const objectKeys = ['a', 'b', 'c', 'd', 'e', 'toString', 'valueOf', 'hasOwnProperty'];
+const pickKey = (random: () => number) => objectKeys[Math.floor(random() * objectKeys.length)];
+
+const arbitraryJson = (random: () => number, depth = 0): Json => {
+  const pick = Math.floor(random() * (depth > 3 ? 4 : 6));
+  switch (pick) {
+    case 0: return null;
+    case 1: return random() < 0.5;
+    case 2: return Math.floor(random() * 20) - 10;
+    case 3: return ['', 'a', 'b', 'text'][Math.floor(random() * 4)];
+    case 4: return Array.from({ length: Math.floor(random() * 5) }, () => arbitraryJson(random, depth + 1));
+    default: {
+      const obj: { [key: string]: Json } = {};
+      const size = Math.floor(random() * 5);
+      for (let i = 0; i < size; i++) {
+        obj[pickKey(random)] = arbitraryJson(random, depth + 1);
+      }
+      return obj;
+    }
+  }
+};
+
+// Derive a related value so diffs exercise nested changes, not only replacements
+const mutateJson = (value: Json, random: () => number, depth = 0): Json => {
+  if (random() < 0.2 || depth > 4) return arbitraryJson(random, depth);
+  if (Array.isArray(value)) {
+    const result = value.map((item) => (random() < 0.3 ? mutateJson(item, random, depth + 1) : item));
+    if (random() < 0.3) result.push(arbitraryJson(random, depth + 1));
+    if (random() < 0.3) result.pop();
+    if (random() < 0.3) result.splice(Math.floor(random() * (result.length + 1)), 0, arbitraryJson(random, depth + 1));
+    if (random() < 0.3 && result.length > 1) {
+      const [moved] = result.splice(Math.floor(random() * result.length), 1);
+      result.splice(Math.floor(random() * (result.length + 1)), 0, moved);
+    }
+    return result;
+  }
+  if (value !== null && typeof value === 'object') {
+    const result = { ...value };
+    for (const key of Object.keys(result)) {
+      const roll = random();
+      if (roll < 0.2) delete result[key];
+      else if (roll < 0.5) result[key] = mutateJson(result[key], random, depth + 1);
+    }
+    if (random() < 0.3) result[pickKey(random)] = arbitraryJson(random, depth + 1);
+    return result;
+  }
+  return arbitraryJson(random, depth);
+};
+
+describe('diffUtils', () => {
+  it('should restore deleted object keys when reversed', () => {
+    const before = { name: 'Layer', hidden: false, meta: { locked: true } };
+    const after = { name: 'Layer' };
+    const diff = createDiff(before, after)!;
+
+    expect(applyDiff(after, reverseDiff(diff))).toStrictEqual(before);
+  });
+
+  it('should restore overwritten array elements when reversed', () => {
+    const before = [{ id: 1 }, { id: 2 }, undefined];
+    const after = [{ id: 1 }, { id: 3 }, 'x', 'y'];
+    const diff = createDiff(before, after)!;
+
+    expect(applyDiff(before, diff)).toStrictEqual(after);
+    expect(applyDiff(after, reverseDiff(diff))).toStrictEqual(before);
+  });
+
+  it('should describe an insertion at the front of a long list with one operation', () => {
+    const before = Array.from({ length: 500 }, (_, i) => ({ id: i }));
+    const after = [{ id: -1 }, ...before];
+    const diff = createDiff(before, after);
+
+    expect(diff).toEqual({ type: 'array', items: [{ op: 'insert', index: 0, value: { id: -1 } }] });
+    expect(applyDiff(after, reverseDiff(diff!))).toStrictEqual(before);
+  });
+
+  it('should describe a reordered item as a single move', () => {
+    const before = ['a', 'b', 'c', 'd'];
+    const after = ['b', 'c', 'd', 'a'];
+    const diff = createDiff(before, after);
+
+    expect(diff).toEqual({ type: 'array', items: [{ op: 'move', from: 0, to: 3 }] });
+    expect(applyDiff(before, diff!)).toEqual(after);
+    expect(applyDiff(after, reverseDiff(diff!))).toEqual(before);
+  });
+
+  it('should match array items by key when getKey is given', () => {
+    const before = [{ id: 1, done: false }, { id: 2, done: false }, { id: 3, done: false }];
+    const after = [before[2], before[0], { id: 2, done: true }];
+    const diff = createDiff(before, after, { getKey: (item) => (item as { id: number }).id });
+
+    expect(diff).toEqual({
+      type: 'array',
+      items: [
+        { op: 'move', from: 2, to: 0 },
+        { op: 'replace', index: 2, value: { id: 2, done: true }, oldValue: before[1] }
+      ]
+    });
+    expect(applyDiff(before, diff!)).toStrictEqual(after);
+    expect(applyDiff(after, reverseDiff(diff!))).toStrictEqual(before);
+  });
+
+  it('should round-trip arbitrary JSON through applyDiff and reverseDiff', () => {
+    for (let seed = 1; seed <= 2000; seed++) {
+      const random = createRandom(seed);
+      const a = arbitraryJson(random);
+      const b = mutateJson(a, random);
+      const diff = createDiff(a, b);
+
+      if (diff === null) {
+        expect(b).toStrictEqual(a);
+        continue;
+      }
+
+      const applied = applyDiff(a, diff);
+      expect({ seed, value: applied }).toStrictEqual({ seed, value: b });
+      expect({ seed, value: applyDiff(applied, reverseDiff(diff)) }).toStrictEqual({ seed, value: a });
+    }
+  });
+
+  it('should compose two diffs into one equivalent diff', () => {
+    const a = { title: 'Draft', tags: ['x', 'y'], meta: { pinned: true } };
+    const b = { title: 'Final', tags: ['y'], meta: { pinned: true }, author: 'me' };
+    const c = { title: 'Final', tags: ['y', 'z'], author: 'you' };
+    const composed = composeDiff(createDiff(a, b)!, createDiff(b, c)!)!;
+
+    expect(applyDiff(a, composed)).toStrictEqual(c);
+    expect(applyDiff(c, reverseDiff(composed))).toStrictEqual(a);
+    expect(composeDiff(createDiff(a, b)!, createDiff(b, a)!)).toBeNull();
+  });
+
+  it('should compose arbitrary JSON diffs', () => {
+    for (let seed = 1; seed <= 1000; seed++) {
+      const random = createRandom(seed);
+      const a = arbitraryJson(random);
+      const b = mutateJson(a, random);
+      const c = mutateJson(b, random);
+      const first = createDiff(a, b);
+      const second = createDiff(b, c);
+      if (!first || !second) continue;
+
+      const composed = composeDiff(first, second);
+      const applied = composed ? applyDiff(a, composed) : a;
+      expect({ seed, value: applied }).toStrictEqual({ seed, value: c });
+      if (composed) {
+        expect({ seed, value: applyDiff(c, reverseDiff(composed)) }).toStrictEqual({ seed, value: a });
+      }
+    }
+  });
+});
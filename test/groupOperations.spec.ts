@@ -0,0 +1,80 @@
+import { atomWithHistory } from '../src';
+import {
+  applyHistoryItem,
+  historyStackAtom,
+  historyStore,
+  runGroupOperation
+} from '../src/historyManager';
+
+describe('groupOperations', () => {
+  const positionAtom = atomWithHistory({ x: 0, y: 0 });
+  const selectionAtom = atomWithHistory<string[]>([]);
+
+  beforeEach(() => {
+    historyStore.set(positionAtom, { x: 0, y: 0 });
+    historyStore.set(selectionAtom, []);
+    historyStore.set(historyStackAtom, { past: [], future: [] });
+  });
+
+  it('should record a group as a single history item', () => {
+    runGroupOperation(historyStore, () => {
+      historyStore.set(positionAtom, { x: 10, y: 5 });
+      historyStore.set(selectionAtom, ['a', 'b']);
+    });
+
+    const { past } = historyStore.get(historyStackAtom);
+    expect(past).toHaveLength(1);
+    expect(past[0]).toMatchObject({ type: 'group' });
+
+    applyHistoryItem(historyStore, past[0], 'undo');
+    expect(historyStore.get(positionAtom)).toEqual({ x: 0, y: 0 });
+    expect(historyStore.get(selectionAtom)).toEqual([]);
+
+    applyHistoryItem(historyStore, past[0], 'redo');
+    expect(historyStore.get(positionAtom)).toEqual({ x: 10, y: 5 });
+    expect(historyStore.get(selectionAtom)).toEqual(['a', 'b']);
+  });
+
+  it('should merge nested groups into the outer group', () => {
+    runGroupOperation(historyStore, () => {
+      historyStore.set(positionAtom, { x: 1, y: 1 });
+      runGroupOperation(historyStore, () => {
+        historyStore.set(selectionAtom, ['a']);
+      });
+    });
+
+    expect(historyStore.get(historyStackAtom).past).toHaveLength(1);
+  });
+
+  it('should roll back every change when the callback throws', () => {
+    expect(() => runGroupOperation(historyStore, () => {
+      historyStore.set(positionAtom, { x: 3, y: 3 });
+      historyStore.set(selectionAtom, ['a']);
+      throw new Error('boom');
+    })).toThrow('boom');
+
+    expect(historyStore.get(positionAtom)).toEqual({ x: 0, y: 0 });
+    expect(historyStore.get(selectionAtom)).toEqual([]);
+    expect(historyStore.get(historyStackAtom).past).toHaveLength(0);
+  });
+
+  it('should keep the group open until an async callback settles', async () => {
+    await runGroupOperation(historyStore, async () => {
+      historyStore.set(positionAtom, { x: 2, y: 2 });
+      await Promise.resolve();
+      historyStore.set(selectionAtom, ['b']);
+    });
+
+    const { past } = historyStore.get(historyStackAtom);
+    expect(past).toHaveLength(1);
+
+    await expect(runGroupOperation(historyStore, async () => {
+      historyStore.set(selectionAtom, ['b', 'c']);
+      await Promise.resolve();
+      throw new Error('rejected');
+    })).rejects.toThrow('rejected');
+
+    expect(historyStore.get(selectionAtom)).toEqual(['b']);
+    expect(historyStore.get(historyStackAtom).past).toHaveLength(1);
+  });
+});
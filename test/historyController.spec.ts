@@ -0,0 +1,41 @@
+import { createStore } from 'jotai/vanilla';
+
+// The vanilla entry must work without React installed
+jest.mock('react', () => {
+  throw new Error('react should not be imported by the vanilla entry');
+});
+
+import { atomWithHistory, createHistoryController } from '../src/vanilla';
+
+describe('createHistoryController', () => {
+  const textAtom = atomWithHistory('', { id: 'controller-text' });
+
+  it('should undo and redo without React', () => {
+    const store = createStore();
+    const controller = createHistoryController(store);
+    const listener = jest.fn();
+    const unsubscribe = controller.subscribe(listener);
+
+    store.set(textAtom, 'a');
+    controller.group(() => {
+      store.set(textAtom, 'ab');
+      store.set(textAtom, 'abc');
+    }, 'Type');
+
+    expect(controller.canUndo()).toBe(true);
+    expect(controller.undoLabel()).toBe('Type');
+    expect(controller.undo()).toBe(true);
+    expect(store.get(textAtom)).toBe('a');
+    expect(controller.canRedo()).toBe(true);
+
+    expect(controller.redo()).toBe(true);
+    expect(store.get(textAtom)).toBe('abc');
+    expect(listener).toHaveBeenCalledTimes(4);
+
+    unsubscribe();
+    controller.clear();
+    expect(controller.canUndo()).toBe(false);
+    expect(controller.undo()).toBe(false);
+    expect(listener).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,116 @@
+import { createStore } from 'jotai/vanilla';
+import type { ReduxDevToolsExtension, ReduxDevToolsMessage } from '../src';
+import { atomWithHistory, connectHistoryDevTools, createHistoryScope, getHistoryManager } from '../src';
+
+// Records what is sent to DevTools and lets tests dispatch commands
+function createFakeExtension() {
+  const fake = {
+    name: undefined as string | undefined,
+    initialState: undefined as unknown,
+    actions: [] as Array<{ action: { type: string; [key: string]: unknown }; state: unknown }>,
+    listener: null as ((message: ReduxDevToolsMessage) => void) | null,
+    dispatch: (payload: ReduxDevToolsMessage['payload']) => fake.listener?.({ type: 'DISPATCH', payload }),
+    extension: {
+      connect: (options) => {
+        fake.name = options?.name;
+        return {
+          init: (state) => {
+            fake.initialState = state;
+          },
+          send: (action, state) => {
+            fake.actions.push({ action, state });
+          },
+          subscribe: (listener) => {
+            fake.listener = listener;
+            return () => {
+              fake.listener = null;
+            };
+          }
+        };
+      }
+    } as ReduxDevToolsExtension
+  };
+  return fake;
+}
+
+describe('history DevTools', () => {
+  const setup = () => {
+    const scope = createHistoryScope({ id: 'devtools' });
+    const countAtom = atomWithHistory(0, { id: 'count', scope });
+    const textAtom = atomWithHistory('', { id: 'text', scope });
+    const store = createStore();
+    const fake = createFakeExtension();
+    const disconnect = connectHistoryDevTools(store, { scope, extension: fake.extension });
+    return { scope, countAtom, textAtom, store, manager: getHistoryManager(store), fake, disconnect };
+  };
+
+  it('should report changes as actions with the atom values as state', () => {
+    const { scope, countAtom, textAtom, store, manager, fake } = setup();
+    expect(fake.name).toBe('jotai-history-global:devtools');
+    expect(fake.initialState).toEqual({ count: 0, text: '' });
+
+    store.set(countAtom, 1);
+    manager.runGroupOperation(() => {
+      store.set(countAtom, 2);
+      store.set(textAtom, 'a');
+    }, scope);
+    manager.undo(scope);
+
+    expect(fake.actions.map(({ action }) => action.type)).toEqual(['push count', 'group', 'undo']);
+    expect(fake.actions[0].action).toMatchObject({ id: 'count', diff: { type: 'value', before: 0, after: 1 } });
+    expect(fake.actions[1].state).toEqual({ count: 2, text: 'a' });
+    expect(fake.actions[2].state).toEqual({ count: 1, text: '' });
+  });
+
+  it('should jump to actions without reporting the jump', () => {
+    const { countAtom, store, fake } = setup();
+    store.set(countAtom, 1);
+    store.set(countAtom, 2);
+    store.set(countAtom, 3);
+
+    fake.dispatch({ type: 'JUMP_TO_ACTION', actionId: 1 });
+    expect(store.get(countAtom)).toBe(1);
+    fake.dispatch({ type: 'JUMP_TO_STATE', actionId: 3 });
+    expect(store.get(countAtom)).toBe(3);
+    fake.dispatch({ type: 'JUMP_TO_ACTION', actionId: 0 });
+    expect(store.get(countAtom)).toBe(0);
+    expect(fake.actions).toHaveLength(3);
+  });
+
+  it('should revert skipped actions', () => {
+    const { countAtom, textAtom, store, fake } = setup();
+    store.set(countAtom, 1);
+    store.set(textAtom, 'a');
+
+    fake.dispatch({ type: 'TOGGLE_ACTION', id: 1 });
+    expect(store.get(countAtom)).toBe(0);
+    expect(store.get(textAtom)).toBe('a');
+    expect(fake.actions[2].action.type).toBe('push count');
+  });
+
+  it('should find actions whose items were undone and redone', () => {
+    const { scope, countAtom, textAtom, store, manager, fake } = setup();
+    store.set(countAtom, 1);
+    store.set(countAtom, 2);
+    manager.undo(scope);
+
+    fake.dispatch({ type: 'JUMP_TO_ACTION', actionId: 2 });
+    expect(store.get(countAtom)).toBe(2);
+
+    manager.undo(scope);
+    manager.redo(scope);
+    store.set(textAtom, 'a');
+    fake.dispatch({ type: 'TOGGLE_ACTION', id: 2 });
+    expect(store.get(countAtom)).toBe(1);
+    expect(store.get(textAtom)).toBe('a');
+  });
+
+  it('should stop reporting once disconnected', () => {
+    const { countAtom, store, fake, disconnect } = setup();
+    disconnect();
+    store.set(countAtom, 1);
+
+    expect(fake.actions).toHaveLength(0);
+    expect(fake.listener).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+import { createStore } from 'jotai/vanilla';
+import { atomWithHistory, createHistoryScope, getHistoryManager } from '../src';
+import type { HistoryEventType } from '../src';
+
+describe('history events and middleware', () => {
+  const scope = createHistoryScope({ id: 'events', maxEntries: 2 });
+  const nameAtom = atomWithHistory('', { id: 'name', scope, label: () => 'Rename' });
+  const sizeAtom = atomWithHistory(1, { id: 'size', scope });
+
+  const record = (store: ReturnType<typeof createStore>) => {
+    const manager = getHistoryManager(store);
+    const events: Array<{ type: HistoryEventType; pastSize: number; futureSize: number }> = [];
+    const log = (event: { type: HistoryEventType; pastSize: number; futureSize: number }) => {
+      events.push({ type: event.type, pastSize: event.pastSize, futureSize: event.futureSize });
+    };
+    manager.onPush(log, scope);
+    manager.onUndo(log, scope);
+    manager.onRedo(log, scope);
+    manager.onClear(log, scope);
+    manager.onEvict(log, scope);
+    manager.onGroupCommit(log, scope);
+    return { manager, events };
+  };
+
+  it('should report pushes, undo, redo and clear with stack sizes', () => {
+    const store = createStore();
+    const { manager, events } = record(store);
+    const pushes: unknown[] = [];
+    manager.onPush((event) => pushes.push({ id: event.id, diff: event.diff, label: event.label }), scope);
+
+    store.set(nameAtom, 'a');
+    manager.undo(scope);
+    manager.redo(scope);
+    manager.clear(scope);
+
+    expect(pushes).toEqual([{ id: 'name', diff: { type: 'value', before: '', after: 'a' }, label: 'Rename' }]);
+    expect(events).toEqual([
+      { type: 'push', pastSize: 1, futureSize: 0 },
+      { type: 'undo', pastSize: 0, futureSize: 1 },
+      { type: 'redo', pastSize: 1, futureSize: 0 },
+      { type: 'clear', pastSize: 0, futureSize: 0 }
+    ]);
+  });
+
+  it('should report group commits and evicted entries', () => {
+    const store = createStore();
+    const { manager, events } = record(store);
+    const evicted: string[][] = [];
+    manager.onEvict((event) => evicted.push(event.entries.map((entry) => entry.id)), scope);
+
+    store.set(sizeAtom, 2);
+    manager.runGroupOperation(() => {
+      store.set(nameAtom, 'b');
+      store.set(sizeAtom, 3);
+    }, scope);
+
+    expect(events.map((event) => event.type)).toEqual(['push', 'push', 'push', 'groupCommit', 'evict']);
+    expect(evicted).toEqual([['size']]);
+    expect(store.get(scope.stackAtom).past).toHaveLength(1);
+  });
+
+  it('should let middleware transform or veto entries and stop after removal', () => {
+    const store = createStore();
+    const manager = getHistoryManager(store);
+    const removeVeto = manager.use((entry, next) => (entry.id === 'size' ? null : next(entry)), scope);
+    manager.use((entry, next, context) => next({ ...entry, metadata: { before: context.prevValue } }), scope);
+
+    store.set(sizeAtom, 5);
+    store.set(nameAtom, 'c');
+    expect(store.get(sizeAtom)).toBe(5);
+    expect(store.get(scope.stackAtom).past).toEqual([
+      expect.objectContaining({ id: 'name', metadata: { before: '' } })
+    ]);
+
+    removeVeto();
+    store.set(sizeAtom, 6);
+    expect(store.get(scope.stackAtom).past).toHaveLength(2);
+  });
+
+  it('should remove listeners with the returned function', () => {
+    const store = createStore();
+    const manager = getHistoryManager(store);
+    const listener = jest.fn();
+    const unsubscribe = manager.onPush(listener, scope);
+
+    store.set(nameAtom, 'd');
+    unsubscribe();
+    store.set(nameAtom, 'e');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,67 @@
+import { createStore } from 'jotai/vanilla';
+import { atomWithHistory, bindHistoryHotkeys, createHistoryController, isEditableTarget } from '../src/vanilla';
+
+// Minimal stand-in for a DOM KeyboardEvent dispatched on a target
+const pressKey = (
+  target: EventTarget,
+  key: string,
+  modifiers: Partial<Pick<KeyboardEvent, 'ctrlKey' | 'metaKey' | 'shiftKey' | 'altKey'>> = {},
+  eventTarget?: object
+) => {
+  const event = Object.assign(new Event('keydown', { cancelable: true }), { key, ...modifiers });
+  if (eventTarget) Object.defineProperty(event, 'target', { value: eventTarget });
+  target.dispatchEvent(event);
+  return event;
+};
+
+describe('bindHistoryHotkeys', () => {
+  const countAtom = atomWithHistory(0, { id: 'hotkey-count' });
+
+  const setup = (isMac: boolean) => {
+    const store = createStore();
+    const target = new EventTarget();
+    const unbind = bindHistoryHotkeys(createHistoryController(store), { target, isMac });
+    store.set(countAtom, 1);
+    store.set(countAtom, 2);
+    return { store, target, unbind };
+  };
+
+  it('should undo and redo with Ctrl shortcuts on Windows and Linux', () => {
+    const { store, target } = setup(false);
+
+    const event = pressKey(target, 'z', { ctrlKey: true });
+    expect(event.defaultPrevented).toBe(true);
+    expect(store.get(countAtom)).toBe(1);
+
+    pressKey(target, 'z', { metaKey: true });
+    expect(store.get(countAtom)).toBe(1);
+
+    pressKey(target, 'y', { ctrlKey: true });
+    expect(store.get(countAtom)).toBe(2);
+  });
+
+  it('should use Cmd on Mac and stop after unbinding', () => {
+    const { store, target, unbind } = setup(true);
+
+    pressKey(target, 'z', { metaKey: true });
+    expect(store.get(countAtom)).toBe(1);
+    pressKey(target, 'Z', { metaKey: true, shiftKey: true });
+    expect(store.get(countAtom)).toBe(2);
+
+    unbind();
+    pressKey(target, 'z', { metaKey: true });
+    expect(store.get(countAtom)).toBe(2);
+  });
+
+  it('should ignore events from editable elements', () => {
+    const { store, target } = setup(false);
+
+    const event = pressKey(target, 'z', { ctrlKey: true }, { tagName: 'INPUT', type: 'text' });
+    expect(event.defaultPrevented).toBe(false);
+    expect(store.get(countAtom)).toBe(2);
+
+    pressKey(target, 'z', { ctrlKey: true }, { tagName: 'INPUT', type: 'checkbox' });
+    expect(store.get(countAtom)).toBe(1);
+    expect(isEditableTarget({ tagName: 'DIV', isContentEditable: true } as unknown as EventTarget)).toBe(true);
+  });
+});
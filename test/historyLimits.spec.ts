@@ -0,0 +1,61 @@
+import { createStore } from 'jotai/vanilla';
+import { atomWithHistory, createHistoryScope, getHistoryManager } from '../src';
+import { runGroupOperation } from '../src/historyManager';
+
+describe('history limits', () => {
+  it('should apply historyLimit to each atom separately', () => {
+    const scope = createHistoryScope();
+    const chattyAtom = atomWithHistory(0, { id: 'chatty', scope, historyLimit: 5 });
+    const quietAtom = atomWithHistory('', { id: 'quiet', scope });
+    const store = createStore();
+
+    store.set(quietAtom, 'a');
+    store.set(quietAtom, 'b');
+    for (let i = 1; i <= 20; i++) {
+      store.set(chattyAtom, i);
+    }
+
+    const { past } = store.get(scope.stackAtom);
+    expect(past.filter((item) => 'id' in item && item.id === 'quiet')).toHaveLength(2);
+    expect(past.filter((item) => 'id' in item && item.id === 'chatty')).toHaveLength(5);
+  });
+
+  it('should apply limits to group commits and keep each group one item', () => {
+    const scope = createHistoryScope({ historyLimit: 2 });
+    const xAtom = atomWithHistory(0, { id: 'x', scope });
+    const yAtom = atomWithHistory(0, { id: 'y', scope, historyLimit: 10 });
+    const store = createStore();
+
+    for (let i = 1; i <= 3; i++) {
+      runGroupOperation(store, () => {
+        store.set(xAtom, i);
+        store.set(yAtom, i);
+      }, scope);
+    }
+
+    const { past } = store.get(scope.stackAtom);
+    expect(past).toHaveLength(3);
+    expect(past.map((item) => ('operations' in item ? item.operations.length : 1))).toEqual([1, 2, 2]);
+
+    // The oldest group still undoes y as one step
+    getHistoryManager(store).goToHistoryPosition(0, scope);
+    expect(store.get(yAtom)).toBe(0);
+    expect(store.get(xAtom)).toBe(1);
+  });
+
+  it('should evict the oldest items to stay within the entry and byte budgets', () => {
+    const countScope = createHistoryScope({ maxEntries: 3 });
+    const sizeScope = createHistoryScope({ maxBytes: 100, estimateSize: () => 40 });
+    const countAtom = atomWithHistory(0, { scope: countScope });
+    const sizeAtom = atomWithHistory(0, { scope: sizeScope });
+    const store = createStore();
+
+    for (let i = 1; i <= 5; i++) {
+      store.set(countAtom, i);
+      store.set(sizeAtom, i);
+    }
+
+    expect(store.get(countScope.stackAtom).past).toHaveLength(3);
+    expect(store.get(sizeScope.stackAtom).past).toHaveLength(2);
+  });
+});
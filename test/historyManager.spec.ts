@@ -0,0 +1,191 @@
+import { createStore } from 'jotai/vanilla';
+import { atomWithHistory, createHistoryScope, getHistoryManager } from '../src';
+import { historyStackAtom, historyStore } from '../src/historyManager';
+
+describe('getHistoryManager', () => {
+  const countAtom = atomWithHistory(0, { id: 'store-count' });
+
+  it('should return the same manager for the same store', () => {
+    const store = createStore();
+
+    expect(getHistoryManager(store)).toBe(getHistoryManager(store));
+    expect(getHistoryManager(store)).not.toBe(getHistoryManager(createStore()));
+    expect(getHistoryManager().store).toBe(historyStore);
+  });
+
+  it('should record and undo history in the store that was written to', () => {
+    const storeA = createStore();
+    const storeB = createStore();
+
+    storeA.set(countAtom, 1);
+    storeA.set(countAtom, 2);
+    storeB.set(countAtom, 10);
+
+    expect(storeA.get(historyStackAtom).past).toHaveLength(2);
+    expect(storeB.get(historyStackAtom).past).toHaveLength(1);
+    expect(historyStore.get(historyStackAtom).past).toHaveLength(0);
+
+    const manager = getHistoryManager(storeA);
+    const { past } = storeA.get(historyStackAtom);
+    manager.applyHistoryItem(past[past.length - 1], 'undo');
+
+    expect(storeA.get(countAtom)).toBe(1);
+    expect(storeB.get(countAtom)).toBe(10);
+  });
+
+  it('should group changes in its own store', () => {
+    const store = createStore();
+    const manager = getHistoryManager(store);
+
+    manager.runGroupOperation(() => {
+      store.set(countAtom, 5);
+      store.set(countAtom, 6);
+    });
+
+    expect(store.get(historyStackAtom).past).toEqual([
+      expect.objectContaining({ type: 'group' })
+    ]);
+  });
+
+  it('should undo and redo custom diffs through the registered patch handlers', () => {
+    type Op = { insert: string } | { remove: string };
+    const store = createStore();
+    const tagsAtom = atomWithHistory<string[]>([], {
+      id: 'store-tags',
+      customDiff: (prev, next): Op[] => [
+        ...next.filter((tag) => !prev.includes(tag)).map((tag) => ({ insert: tag })),
+        ...prev.filter((tag) => !next.includes(tag)).map((tag) => ({ remove: tag }))
+      ],
+      customPatch: (value, diff) => (diff as Op[]).reduce(
+        (tags, op) => ('insert' in op ? [...tags, op.insert] : tags.filter((tag) => tag !== op.remove)),
+        value
+      ),
+      customInversePatch: (value, diff) => (diff as Op[]).reduce(
+        (tags, op) => ('insert' in op ? tags.filter((tag) => tag !== op.insert) : [...tags, op.remove]),
+        value
+      )
+    });
+    const manager = getHistoryManager(store);
+
+    store.set(tagsAtom, ['a', 'b']);
+    const [entry] = store.get(historyStackAtom).past;
+    expect(entry).toMatchObject({ diff: [{ insert: 'a' }, { insert: 'b' }] });
+
+    manager.applyHistoryItem(entry, 'undo');
+    expect(store.get(tagsAtom)).toEqual([]);
+
+    manager.applyHistoryItem(entry, 'redo');
+    expect(store.get(tagsAtom)).toEqual(['a', 'b']);
+  });
+
+  it('should redo full-value entries to the value after the change', () => {
+    const store = createStore();
+    const manager = getHistoryManager(store);
+    const nameAtom = atomWithHistory('a', { id: 'store-name', useFullValueInstead: true });
+
+    store.set(nameAtom, 'b');
+    const [entry] = store.get(historyStackAtom).past;
+
+    manager.applyHistoryItem(entry, 'undo');
+    expect(store.get(nameAtom)).toBe('a');
+
+    manager.applyHistoryItem(entry, 'redo');
+    expect(store.get(nameAtom)).toBe('b');
+  });
+
+  it('should store checkpoints at the configured interval and rebuild values from them', () => {
+    const store = createStore();
+    const manager = getHistoryManager(store);
+    const listAtom = atomWithHistory<number[]>([], { id: 'store-list', checkpointInterval: 3 });
+
+    for (let i = 1; i <= 7; i++) {
+      store.set(listAtom, [...store.get(listAtom), i]);
+    }
+
+    const { past } = store.get(historyStackAtom);
+    expect(past.map((entry) => 'nextFullValue' in entry)).toEqual([
+      false, false, true, false, false, true, false
+    ]);
+
+    expect(manager.resolveHistoryValue('store-list', 0)).toEqual({ value: [] });
+    expect(manager.resolveHistoryValue('store-list', 4)).toEqual({ value: [1, 2, 3, 4] });
+    expect(manager.resolveHistoryValue('store-list', 7)).toEqual({ value: [1, 2, 3, 4, 5, 6, 7] });
+    expect(manager.resolveHistoryValue('unknown', 2)).toBeNull();
+  });
+
+  it('should undo checkpoints by their diffs like any other entry', () => {
+    const undoOnTopOfUnrecordedWrite = (checkpointInterval: number) => {
+      const scope = createHistoryScope();
+      const pointAtom = atomWithHistory({ x: 0, y: 0 }, { scope, checkpointInterval });
+      const store = createStore();
+      const manager = getHistoryManager(store);
+      store.set(pointAtom, { x: 1, y: 0 });
+      manager.setWithoutHistory(pointAtom, { x: 1, y: 5 }, { scope });
+      manager.undo(scope);
+      return store.get(pointAtom);
+    };
+
+    expect(undoOnTopOfUnrecordedWrite(0)).toEqual({ x: 0, y: 5 });
+    expect(undoOnTopOfUnrecordedWrite(1)).toEqual({ x: 0, y: 5 });
+  });
+
+  it('should jump across several items and notify subscribers once', () => {
+    const store = createStore();
+    const manager = getHistoryManager(store);
+    const stepAtom = atomWithHistory(0, { id: 'store-step' });
+    const labelAtom = atomWithHistory('start', { id: 'store-label' });
+
+    store.set(stepAtom, 1);
+    store.set(labelAtom, 'one');
+    store.set(stepAtom, 2);
+    store.set(stepAtom, 3);
+
+    const stepListener = jest.fn();
+    const stackListener = jest.fn();
+    store.sub(stepAtom, stepListener);
+    store.sub(historyStackAtom, stackListener);
+
+    expect(manager.goToHistoryPosition(1)).toBe(true);
+    expect(store.get(stepAtom)).toBe(1);
+    expect(store.get(labelAtom)).toBe('start');
+    expect(stepListener).toHaveBeenCalledTimes(1);
+    expect(stackListener).toHaveBeenCalledTimes(1);
+    expect(store.get(historyStackAtom).past).toHaveLength(1);
+    expect(store.get(historyStackAtom).future).toHaveLength(3);
+
+    expect(manager.goToHistoryPosition(4)).toBe(true);
+    expect(store.get(stepAtom)).toBe(3);
+    expect(store.get(labelAtom)).toBe('one');
+    expect(manager.goToHistoryPosition(4)).toBe(false);
+  });
+
+  it('should squash a range of past items into one', () => {
+    const store = createStore();
+    const manager = getHistoryManager(store);
+    const pointAtom = atomWithHistory({ x: 0, y: 0 }, { id: 'store-point' });
+    const colorAtom = atomWithHistory('red', { id: 'store-color' });
+
+    store.set(colorAtom, 'blue');
+    for (let i = 1; i <= 5; i++) {
+      store.set(pointAtom, { x: i, y: i * 2 });
+    }
+    expect(manager.squashHistory(1, 6)).toBe(true);
+
+    const { past } = store.get(historyStackAtom);
+    expect(past).toHaveLength(2);
+    expect(past[1]).toMatchObject({ id: 'store-point' });
+
+    manager.applyHistoryItem(past[1], 'undo');
+    expect(store.get(pointAtom)).toEqual({ x: 0, y: 0 });
+    expect(store.get(colorAtom)).toBe('blue');
+
+    manager.applyHistoryItem(past[1], 'redo');
+    expect(manager.squashHistory(0, 2)).toBe(true);
+    expect(store.get(historyStackAtom).past).toEqual([
+      expect.objectContaining({ type: 'group', operations: [
+        expect.objectContaining({ id: 'store-color' }),
+        expect.objectContaining({ id: 'store-point' })
+      ] })
+    ]);
+  });
+});
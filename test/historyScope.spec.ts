@@ -0,0 +1,52 @@
+import { atomWithHistory, createHistoryScope } from '../src';
+import {
+  applyHistoryItem,
+  getAtomById,
+  historyStackAtom,
+  historyStore,
+  runGroupOperation
+} from '../src/historyManager';
+
+describe('createHistoryScope', () => {
+  const canvasScope = createHistoryScope({ id: 'canvas' });
+  const formScope = createHistoryScope({ id: 'form', historyLimit: 2 });
+
+  const shapesAtom = atomWithHistory<string[]>([], { id: 'shapes', scope: canvasScope });
+  const titleAtom = atomWithHistory('', { id: 'title', scope: formScope });
+  const globalAtom = atomWithHistory(0, { id: 'global-counter' });
+
+  it('should keep a separate stack and registry per scope', () => {
+    historyStore.set(shapesAtom, ['rect']);
+    historyStore.set(titleAtom, 'Draft');
+
+    expect(historyStore.get(canvasScope.stackAtom).past).toHaveLength(1);
+    expect(historyStore.get(formScope.stackAtom).past).toHaveLength(1);
+    expect(historyStore.get(historyStackAtom).past).toHaveLength(0);
+
+    expect(getAtomById('shapes', canvasScope)).toBe(shapesAtom);
+    expect(getAtomById('shapes', formScope)).toBeUndefined();
+    expect(getAtomById('global-counter')).toBe(globalAtom);
+  });
+
+  it('should apply the scope history limit', () => {
+    historyStore.set(titleAtom, 'Draft 2');
+    historyStore.set(titleAtom, 'Draft 3');
+
+    expect(historyStore.get(formScope.stackAtom).past).toHaveLength(2);
+  });
+
+  it('should only group changes recorded in the given scope', () => {
+    runGroupOperation(historyStore, () => {
+      historyStore.set(shapesAtom, ['rect', 'circle']);
+      historyStore.set(globalAtom, 1);
+    }, canvasScope);
+
+    const canvasPast = historyStore.get(canvasScope.stackAtom).past;
+    expect(canvasPast[canvasPast.length - 1]).toMatchObject({ type: 'group' });
+    expect(historyStore.get(historyStackAtom).past).toHaveLength(1);
+
+    applyHistoryItem(historyStore, canvasPast[canvasPast.length - 1], 'undo', canvasScope);
+    expect(historyStore.get(shapesAtom)).toEqual(['rect']);
+    expect(historyStore.get(globalAtom)).toBe(1);
+  });
+});
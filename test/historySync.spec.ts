@@ -0,0 +1,75 @@
+import { createStore } from 'jotai/vanilla';
+import { atomWithHistory, createHistoryScope, createMemorySyncHub, getHistoryManager, syncHistory } from '../src';
+
+describe('history sync', () => {
+  const scope = createHistoryScope({ id: 'doc' });
+  const docAtom = atomWithHistory({ title: '', body: '' }, { id: 'doc', scope });
+  const tagsAtom = atomWithHistory<string[]>([], { id: 'tags', scope, mergeWindowMs: 1000 });
+
+  const setup = () => {
+    const hub = createMemorySyncHub();
+    const tabs = [createStore(), createStore()].map((store) => ({
+      store,
+      manager: getHistoryManager(store),
+      stop: syncHistory(store, { transport: hub.connect(), scope })
+    }));
+    return tabs;
+  };
+
+  it('should apply remote changes without recording them locally', () => {
+    const [a, b] = setup();
+    a.store.set(docAtom, { title: 'Hello', body: '' });
+
+    expect(b.store.get(docAtom)).toEqual({ title: 'Hello', body: '' });
+    expect(b.store.get(scope.stackAtom).past).toHaveLength(0);
+    expect(a.store.get(scope.stackAtom).past).toHaveLength(1);
+  });
+
+  it('should undo only local edits on top of remote ones', () => {
+    const [a, b] = setup();
+    a.store.set(docAtom, { title: 'Hello', body: '' });
+    b.store.set(docAtom, { title: 'Hello', body: 'World' });
+
+    expect(a.manager.undo(scope)).toBe(true);
+    expect(a.store.get(docAtom)).toEqual({ title: '', body: 'World' });
+    expect(b.store.get(docAtom)).toEqual({ title: '', body: 'World' });
+
+    expect(b.manager.undo(scope)).toBe(true);
+    expect(a.store.get(docAtom)).toEqual({ title: '', body: '' });
+  });
+
+  it('should send groups once and replace coalesced entries', () => {
+    const [a, b] = setup();
+    a.manager.runGroupOperation(() => {
+      a.store.set(docAtom, { title: 'T', body: '' });
+      a.store.set(tagsAtom, ['x']);
+    }, scope);
+    a.store.set(tagsAtom, ['x', 'y']);
+    a.store.set(tagsAtom, ['x', 'y', 'z']);
+
+    expect(b.store.get(docAtom)).toEqual({ title: 'T', body: '' });
+    expect(b.store.get(tagsAtom)).toEqual(['x', 'y', 'z']);
+  });
+
+  it('should rebase entries that store full values instead of diffs', () => {
+    const pointAtom = atomWithHistory({ x: 0, y: 0 }, { id: 'point', scope, useFullValueInstead: true });
+    const [a, b] = setup();
+    a.store.set(pointAtom, { x: 1, y: 0 });
+    b.store.set(pointAtom, { x: 1, y: 2 });
+
+    a.manager.undo(scope);
+    expect(a.store.get(pointAtom)).toEqual({ x: 0, y: 2 });
+    expect(b.store.get(pointAtom)).toEqual({ x: 0, y: 2 });
+
+    b.manager.undo(scope);
+    expect(a.store.get(pointAtom)).toEqual({ x: 0, y: 0 });
+  });
+
+  it('should stop syncing when stopped', () => {
+    const [a, b] = setup();
+    a.stop();
+    a.store.set(docAtom, { title: 'Offline', body: '' });
+
+    expect(b.store.get(docAtom)).toEqual({ title: '', body: '' });
+  });
+});
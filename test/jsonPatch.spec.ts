@@ -0,0 +1,71 @@
+import { createStore } from 'jotai/vanilla';
+import {
+  applyJsonPatch,
+  atomWithHistory,
+  createDiff,
+  createHistoryScope,
+  fromJsonPatch,
+  getHistoryManager,
+  invertJsonPatch,
+  toJsonPatch
+} from '../src';
+
+describe('JSON Patch', () => {
+  type Doc = { title: string; tags: string[]; 'a/b'?: number; meta: { author: string; year?: number } };
+  const before: Doc = { title: 'Draft', tags: ['a', 'b', 'c'], 'a/b': 1, meta: { author: 'Ann' } };
+  const after: Doc = { title: 'Final', tags: ['c', 'a', 'd'], meta: { author: 'Ann', year: 2024 } };
+
+  it('should convert diffs to patches that produce the new value', () => {
+    const patch = toJsonPatch(createDiff(before, after)!);
+
+    expect(patch).toEqual(expect.arrayContaining([
+      { op: 'test', path: '/title', value: 'Draft' },
+      { op: 'replace', path: '/title', value: 'Final' },
+      { op: 'test', path: '/a~1b', value: 1 },
+      { op: 'remove', path: '/a~1b' },
+      { op: 'add', path: '/meta/year', value: 2024 }
+    ]));
+    expect(applyJsonPatch(before, patch)).toEqual(after);
+    expect(fromJsonPatch(patch, before)).toEqual(createDiff(before, after));
+  });
+
+  it('should invert patches', () => {
+    const patch = toJsonPatch(createDiff(before, after)!);
+    expect(applyJsonPatch(after, invertJsonPatch(patch))).toEqual(before);
+
+    expect(() => invertJsonPatch([{ op: 'remove', path: '/title' }])).toThrow('without a test');
+  });
+
+  it('should reject patches whose tests fail', () => {
+    const patch = toJsonPatch(createDiff(before, after)!);
+    expect(() => applyJsonPatch({ ...before, title: 'Other' }, patch)).toThrow('test failed at "/title"');
+  });
+
+  it('should record and undo entries stored as JSON Patch', () => {
+    const scope = createHistoryScope();
+    const docAtom = atomWithHistory(before, { scope, diffFormat: 'json-patch' });
+    const store = createStore();
+    const manager = getHistoryManager(store);
+    store.set(docAtom, after);
+
+    const [entry] = store.get(scope.stackAtom).past;
+    expect(entry).toMatchObject({ diff: expect.arrayContaining([{ op: 'replace', path: '/title', value: 'Final' }]) });
+
+    manager.undo(scope);
+    expect(store.get(docAtom)).toEqual(before);
+    manager.redo(scope);
+    expect(store.get(docAtom)).toEqual(after);
+  });
+
+  it('should revert JSON Patch checkpoints without undoing later changes', () => {
+    const scope = createHistoryScope();
+    const pointAtom = atomWithHistory({ x: 0, y: 0 }, { scope, diffFormat: 'json-patch', checkpointInterval: 1 });
+    const store = createStore();
+    const manager = getHistoryManager(store);
+    store.set(pointAtom, { x: 1, y: 0 });
+    store.set(pointAtom, { x: 1, y: 1 });
+
+    expect(manager.revertEntry(0, scope).reverted).toBe(true);
+    expect(store.get(pointAtom)).toEqual({ x: 0, y: 1 });
+  });
+});
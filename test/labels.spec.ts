@@ -0,0 +1,52 @@
+import { createStore } from 'jotai/vanilla';
+import { atomWithHistory, getHistoryItemLabel, getHistoryManager, withLabel } from '../src';
+import { historyStackAtom } from '../src/historyManager';
+
+describe('labels', () => {
+  const nameAtom = atomWithHistory('Layer 1', {
+    id: 'label-name',
+    label: (prev, next) => `Rename "${prev}" to "${next}"`
+  });
+  const visibleAtom = atomWithHistory(true, { id: 'label-visible' });
+
+  it('should label entries with the atom label function', () => {
+    const store = createStore();
+    store.set(nameAtom, 'Background');
+    store.set(visibleAtom, false);
+
+    const [renamed, hidden] = store.get(historyStackAtom).past;
+    expect(getHistoryItemLabel(renamed)).toBe('Rename "Layer 1" to "Background"');
+    expect(getHistoryItemLabel(hidden)).toBeUndefined();
+  });
+
+  it('should prefer withLabel labels and store metadata', async () => {
+    const store = createStore();
+    withLabel('Hide Layer', () => store.set(visibleAtom, false), { source: 'toolbar' });
+    await withLabel('Load Name', async () => {
+      await Promise.resolve();
+      store.set(nameAtom, 'Loaded');
+    });
+    store.set(visibleAtom, true);
+
+    expect(store.get(historyStackAtom).past).toEqual([
+      expect.objectContaining({ label: 'Hide Layer', metadata: { source: 'toolbar' } }),
+      expect.objectContaining({ label: 'Load Name' }),
+      expect.not.objectContaining({ label: expect.anything() })
+    ]);
+  });
+
+  it('should label a whole group', () => {
+    const store = createStore();
+    const manager = getHistoryManager(store);
+
+    manager.runGroupOperation(() => {
+      store.set(nameAtom, 'Grouped');
+      store.set(visibleAtom, false);
+    }, undefined, { label: 'Edit Layer', metadata: { layer: 1 } });
+    manager.runGroupOperation(() => store.set(nameAtom, 'Unlabelled group'));
+
+    const [labelled, unlabelled] = store.get(historyStackAtom).past;
+    expect(labelled).toMatchObject({ type: 'group', label: 'Edit Layer', metadata: { layer: 1 } });
+    expect(getHistoryItemLabel(unlabelled)).toBe('Rename "Grouped" to "Unlabelled group"');
+  });
+});
@@ -0,0 +1,92 @@
+import { createStore } from 'jotai/vanilla';
+import {
+  atomWithHistory,
+  createHistoryScope,
+  createMemoryStorageAdapter,
+  getHistoryManager,
+  loadHistory,
+  restoreHistory,
+  saveHistory,
+  serializeHistory
+} from '../src';
+import type { HistoryValueSerializer, PersistedHistory } from '../src';
+
+class Point {
+  constructor(public x: number, public y: number) {}
+}
+
+const pointSerializer: HistoryValueSerializer = {
+  type: 'Point',
+  test: (value) => value instanceof Point,
+  serialize: (value) => [(value as Point).x, (value as Point).y],
+  deserialize: (data) => new Point(...(data as [number, number]))
+};
+
+describe('persistence', () => {
+  const scope = createHistoryScope({ id: 'persisted' });
+  const titleAtom = atomWithHistory('Untitled', { id: 'title', scope });
+  const createdAtom = atomWithHistory(new Date(0), { id: 'created', scope, useFullValueInstead: true });
+  const originAtom = atomWithHistory(new Point(0, 0), { id: 'origin', scope, useFullValueInstead: true });
+
+  it('should save and restore stacks and values through a storage adapter', async () => {
+    const storage = createMemoryStorageAdapter();
+    const source = createStore();
+    source.set(titleAtom, 'Draft');
+    source.set(createdAtom, new Date(1000));
+    source.set(originAtom, new Point(3, 4));
+
+    await saveHistory(source, { storage, scope, serializers: [pointSerializer] });
+
+    const target = createStore();
+    expect(await loadHistory(target, { storage, scope, serializers: [pointSerializer] })).toBe(true);
+    expect(target.get(titleAtom)).toBe('Draft');
+    expect(target.get(createdAtom)).toEqual(new Date(1000));
+    expect(target.get(originAtom)).toBeInstanceOf(Point);
+    expect(target.get(scope.stackAtom).past).toHaveLength(3);
+
+    // Restoring values must not record new history, and undo keeps working
+    const manager = getHistoryManager(target);
+    const { past } = target.get(scope.stackAtom);
+    manager.applyHistoryItem(past[2], 'undo', scope);
+    expect(target.get(originAtom)).toEqual(new Point(0, 0));
+  });
+
+  it('should return false when nothing was saved', async () => {
+    expect(await loadHistory(createStore(), { storage: createMemoryStorageAdapter(), scope })).toBe(false);
+  });
+
+  it('should apply values of atoms that register after the restore', () => {
+    const lazyScope = createHistoryScope({ id: 'lazy' });
+    const store = createStore();
+    const data: PersistedHistory = {
+      version: 1,
+      scope: 'lazy',
+      stack: { past: [{ id: 'later', diff: { type: 'value', before: 1, after: 2 }, timestamp: 0 }], future: [] },
+      values: { later: 2 }
+    };
+
+    restoreHistory(store, data, { scope: lazyScope });
+    const laterAtom = atomWithHistory(1, { id: 'later', scope: lazyScope });
+
+    expect(store.get(laterAtom)).toBe(2);
+    expect(store.get(lazyScope.stackAtom).past).toHaveLength(1);
+  });
+
+  it('should migrate data written with an older schema version', () => {
+    const store = createStore();
+    const data = serializeHistory(createStore(), { scope });
+    const legacy = { ...data, version: 1, values: { name: 'Legacy' } };
+
+    restoreHistory(store, legacy, {
+      scope,
+      version: 2,
+      migrations: {
+        1: (old) => ({ ...old, values: { title: old.values.name } })
+      }
+    });
+
+    expect(store.get(titleAtom)).toBe('Legacy');
+    expect(() => restoreHistory(store, { ...legacy, version: 0 }, { scope, version: 2 }))
+      .toThrow('No migration from persisted history version 0');
+  });
+});
@@ -0,0 +1,69 @@
+import { createStore } from 'jotai/vanilla';
+import { atomWithHistory, createHistoryScope, getHistoryManager } from '../src';
+
+describe('selective undo', () => {
+  const scope = createHistoryScope({ id: 'selective' });
+  const widthAtom = atomWithHistory(200, { id: 'sidebar-width', scope });
+  const shapeAtom = atomWithHistory({ x: 0, y: 0, color: 'red' }, { id: 'shape', scope });
+
+  it('should undo and redo one atom without touching later changes', () => {
+    const store = createStore();
+    const manager = getHistoryManager(store);
+    store.set(widthAtom, 300);
+    store.set(shapeAtom, { x: 10, y: 0, color: 'red' });
+    store.set(shapeAtom, { x: 10, y: 5, color: 'red' });
+
+    expect(manager.undoAtom(widthAtom, scope)).toBe(true);
+    expect(store.get(widthAtom)).toBe(200);
+    expect(store.get(shapeAtom)).toEqual({ x: 10, y: 5, color: 'red' });
+    expect(store.get(scope.stackAtom).past).toHaveLength(2);
+    expect(manager.undoAtom(widthAtom, scope)).toBe(false);
+
+    expect(manager.redoAtom(widthAtom, scope)).toBe(true);
+    expect(store.get(widthAtom)).toBe(300);
+    expect(store.get(scope.stackAtom).future).toHaveLength(0);
+  });
+
+  it('should revert an entry on top of later changes to other paths', () => {
+    const store = createStore();
+    const manager = getHistoryManager(store);
+    store.set(shapeAtom, { x: 10, y: 0, color: 'red' });
+    store.set(shapeAtom, { x: 10, y: 0, color: 'blue' });
+
+    expect(manager.revertEntry(0, scope)).toEqual({ reverted: true, conflicts: [] });
+    expect(store.get(shapeAtom)).toEqual({ x: 0, y: 0, color: 'blue' });
+    expect(store.get(scope.stackAtom).past).toHaveLength(3);
+  });
+
+  it('should not merge a revert into the latest entry', () => {
+    const pointScope = createHistoryScope();
+    const pointAtom = atomWithHistory({ x: 0, y: 0 }, { scope: pointScope, mergeWindowMs: 1000 });
+    const otherAtom = atomWithHistory(0, { scope: pointScope });
+    const store = createStore();
+    const manager = getHistoryManager(store);
+    store.set(pointAtom, { x: 1, y: 0 });
+    store.set(otherAtom, 1);
+    store.set(pointAtom, { x: 1, y: 1 });
+
+    manager.revertEntry(0, pointScope);
+    expect(store.get(pointAtom)).toEqual({ x: 0, y: 1 });
+    expect(store.get(pointScope.stackAtom).past).toHaveLength(4);
+
+    manager.undo(pointScope);
+    expect(store.get(pointAtom)).toEqual({ x: 1, y: 1 });
+  });
+
+  it('should report conflicts when later changes touched the same paths', () => {
+    const store = createStore();
+    const manager = getHistoryManager(store);
+    store.set(shapeAtom, { x: 10, y: 0, color: 'red' });
+    store.set(widthAtom, 250);
+    store.set(shapeAtom, { x: 20, y: 0, color: 'red' });
+
+    expect(manager.revertEntry(0, scope)).toEqual({
+      reverted: false,
+      conflicts: [{ id: 'shape', path: ['x'], index: 2 }]
+    });
+    expect(store.get(shapeAtom)).toEqual({ x: 20, y: 0, color: 'red' });
+  });
+});
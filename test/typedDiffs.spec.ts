@@ -0,0 +1,125 @@
+import { createStore } from 'jotai/vanilla';
+import {
+  applyDiff,
+  atomWithHistory,
+  composeDiff,
+  createDiff,
+  createHistoryScope,
+  getHistoryManager,
+  registerDiffTypeHandler,
+  reverseDiff
+} from '../src';
+
+class Point {
+  constructor(public x: number, public y: number) {}
+
+  length() {
+    return Math.hypot(this.x, this.y);
+  }
+}
+
+// A stand-in for an immutable record type with its own update API
+class Record {
+  constructor(readonly fields: Readonly<{ [key: string]: number }>) {}
+
+  set(key: string, value: number) {
+    return new Record({ ...this.fields, [key]: value });
+  }
+}
+
+describe('typed diffs', () => {
+  it('should diff Maps by key and share unchanged values', () => {
+    const alice = { name: 'Alice', age: 30 };
+    const bob = { name: 'Bob', age: 40 };
+    const oldMap = new Map([['a', alice], ['b', bob]]);
+    const newMap = new Map([['a', { ...alice, age: 31 }], ['c', { name: 'Carol', age: 50 }]]);
+
+    const diff = createDiff(oldMap, newMap)!;
+    expect(diff).toEqual({
+      type: 'map',
+      changed: [['a', expect.objectContaining({ type: 'object' })]],
+      added: [['c', { name: 'Carol', age: 50 }]],
+      deleted: [['b', bob]]
+    });
+
+    const patched = applyDiff(oldMap, diff);
+    expect(patched).toEqual(newMap);
+    expect(applyDiff(patched, reverseDiff(diff))).toEqual(oldMap);
+    expect(applyDiff(newMap, reverseDiff(diff)).get('b')).toBe(bob);
+  });
+
+  it('should diff Sets, Dates and typed arrays', () => {
+    const setDiff = createDiff(new Set([1, 2]), new Set([2, 3]))!;
+    expect(setDiff).toEqual({ type: 'set', added: [3], deleted: [1] });
+    expect(applyDiff(new Set([2, 3]), reverseDiff(setDiff))).toEqual(new Set([2, 1]));
+
+    expect(createDiff(new Date(0), new Date(0))).toBeNull();
+    expect(createDiff(new Date(0), new Date(1))).toEqual({ type: 'value', before: new Date(0), after: new Date(1) });
+
+    expect(createDiff(new Uint8Array([1, 2]), new Uint8Array([1, 2]))).toBeNull();
+    expect(createDiff(new Float32Array([1]), new Float32Array([2]))).toMatchObject({ type: 'value' });
+  });
+
+  it('should keep the prototype of class instances', () => {
+    const diff = createDiff(new Point(3, 0), new Point(3, 4))!;
+    const patched = applyDiff(new Point(3, 0), diff);
+
+    expect(patched).toBeInstanceOf(Point);
+    expect(patched.length()).toBe(5);
+    expect(createDiff(new Point(0, 0), { x: 0, y: 0 })).toMatchObject({ type: 'value' });
+  });
+
+  it('should compose Map and Set diffs', () => {
+    const first = createDiff(new Map([['a', 1]]), new Map([['a', 2], ['b', 1]]))!;
+    const second = createDiff(new Map([['a', 2], ['b', 1]]), new Map([['a', 3]]))!;
+    expect(applyDiff(new Map([['a', 1]]), composeDiff(first, second)!)).toEqual(new Map([['a', 3]]));
+    expect(composeDiff(first, reverseDiff(first))).toBeNull();
+
+    const added = createDiff(new Set(), new Set(['x']))!;
+    expect(composeDiff(added, reverseDiff(added))).toBeNull();
+  });
+
+  it('should use registered type handlers', () => {
+    type RecordDiff = Array<[string, number, number]>;
+    const unregister = registerDiffTypeHandler<Record, RecordDiff>({
+      name: 'record',
+      test: (value) => value instanceof Record,
+      diff: (oldRecord, newRecord) => {
+        const changes = Object.keys(newRecord.fields)
+          .filter((key) => oldRecord.fields[key] !== newRecord.fields[key])
+          .map((key): [string, number, number] => [key, oldRecord.fields[key], newRecord.fields[key]]);
+        return changes.length > 0 ? changes : null;
+      },
+      apply: (record, changes) => changes.reduce((next, [key, , value]) => next.set(key, value), record),
+      reverse: (changes) => changes.map(([key, before, after]) => [key, after, before])
+    });
+
+    try {
+      const scope = createHistoryScope();
+      const recordAtom = atomWithHistory(new Record({ count: 0 }), { scope });
+      const store = createStore();
+      const manager = getHistoryManager(store);
+      store.set(recordAtom, store.get(recordAtom).set('count', 1));
+      store.set(recordAtom, store.get(recordAtom).set('count', 2));
+
+      expect(store.get(scope.stackAtom).past[0]).toMatchObject({
+        diff: { type: 'custom', handler: 'record', diff: [['count', 0, 1]] }
+      });
+
+      manager.undo(scope);
+      expect(store.get(recordAtom)).toBeInstanceOf(Record);
+      expect(store.get(recordAtom).fields).toEqual({ count: 1 });
+
+      // Without compose the entries are kept as they are, in one group
+      manager.redo(scope);
+      expect(manager.squashHistory(0, 2, scope)).toBe(true);
+      expect(store.get(scope.stackAtom).past).toEqual([
+        expect.objectContaining({ type: 'group', operations: [expect.anything(), expect.anything()] })
+      ]);
+      manager.undo(scope);
+      expect(store.get(recordAtom).fields).toEqual({ count: 0 });
+    } finally {
+      unregister();
+    }
+  });
+});
@@ -0,0 +1,95 @@
+import { atom, createStore } from 'jotai/vanilla';
+import { atomWithReducer } from 'jotai/vanilla/utils';
+import {
+  atomFamilyWithHistory,
+  atomWithHistory,
+  createHistoryScope,
+  getHistoryManager,
+  withHistory
+} from '../src';
+
+describe('withHistory', () => {
+  const scope = createHistoryScope({ id: 'wrapped' });
+
+  it('should accept updater functions', () => {
+    const countAtom = atomWithHistory(1, { scope });
+    const store = createStore();
+    store.set(countAtom, (prev) => prev + 1);
+    store.set(countAtom, (prev) => prev * 10);
+
+    expect(store.get(countAtom)).toBe(20);
+    getHistoryManager(store).undo(scope);
+    expect(store.get(countAtom)).toBe(2);
+  });
+
+  it('should track an existing writable atom', () => {
+    const baseAtom = atom({ name: 'a' });
+    const nameAtom = withHistory(baseAtom, { id: 'wrapped-name', scope });
+    const store = createStore();
+    const manager = getHistoryManager(store);
+
+    store.set(nameAtom, (prev) => ({ ...prev, name: 'b' }));
+    expect(store.get(baseAtom)).toEqual({ name: 'b' });
+
+    manager.undo(scope);
+    expect(store.get(baseAtom)).toEqual({ name: 'a' });
+    manager.redo(scope);
+    expect(store.get(nameAtom)).toEqual({ name: 'b' });
+  });
+
+  it('should restore reducer atoms through their own actions', () => {
+    type Action = { type: 'add'; amount: number } | { type: 'restore'; value: number };
+    const reducerAtom = atomWithReducer(0, (value: number, action: Action) => (
+      action.type === 'add' ? value + action.amount : action.value
+    ));
+    const totalAtom = withHistory(reducerAtom, {
+      scope,
+      restore: (value): [Action] => [{ type: 'restore', value }]
+    });
+    const store = createStore();
+
+    store.set(totalAtom, { type: 'add', amount: 5 });
+    store.set(totalAtom, { type: 'add', amount: 2 });
+    getHistoryManager(store).undo(scope);
+    expect(store.get(totalAtom)).toBe(5);
+  });
+
+  it('should record async atoms once their values resolve', async () => {
+    const asyncScope = createHistoryScope({ id: 'async' });
+    const asyncAtom = atom(Promise.resolve('draft'));
+    const textAtom = withHistory(asyncAtom, { scope: asyncScope });
+    const store = createStore();
+
+    store.set(textAtom, Promise.resolve('final'));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(store.get(asyncScope.stackAtom).past).toEqual([
+      expect.objectContaining({ fullValue: 'draft', nextFullValue: 'final' })
+    ]);
+
+    getHistoryManager(store).undo(asyncScope);
+    await expect(store.get(textAtom)).resolves.toBe('draft');
+  });
+});
+
+describe('atomFamilyWithHistory', () => {
+  const scope = createHistoryScope({ id: 'family' });
+  const todoFamily = atomFamilyWithHistory((id: number) => atom({ id, done: false }), { id: 'todo', scope });
+
+  it('should give members stable IDs derived from their params', () => {
+    const store = createStore();
+    store.set(todoFamily(1), { id: 1, done: true });
+
+    expect(todoFamily(1).id).toBe('todo:1');
+    expect(store.get(scope.stackAtom).past).toEqual([expect.objectContaining({ id: 'todo:1' })]);
+  });
+
+  it('should unregister members when they are removed', () => {
+    const member = todoFamily(2);
+    expect(scope.registry.get('todo:2')?.atom).toBe(member);
+
+    todoFamily.remove(2);
+    expect(scope.registry.has('todo:2')).toBe(false);
+    expect(todoFamily(2)).not.toBe(member);
+    expect(scope.registry.get('todo:2')?.atom).toBe(todoFamily(2));
+  });
+});
@@ -0,0 +1,100 @@
+import { atom, createStore } from 'jotai/vanilla';
+import { atomWithHistory, createHistoryScope, getHistoryManager, withHistory } from '../src';
+
+describe('recording without history', () => {
+  const setup = () => {
+    const scope = createHistoryScope();
+    const textAtom = atomWithHistory('', { scope, mergeWindowMs: 1000 });
+    const countAtom = atomWithHistory(0, { scope });
+    const store = createStore();
+    return { scope, textAtom, countAtom, store, manager: getHistoryManager(store) };
+  };
+
+  it('should not record writes made without history', () => {
+    const { scope, countAtom, store, manager } = setup();
+    const result = manager.withoutHistory(() => {
+      store.set(countAtom, 5);
+      return 'loaded';
+    });
+
+    expect(result).toBe('loaded');
+    expect(store.get(countAtom)).toBe(5);
+    expect(store.get(scope.stackAtom).past).toHaveLength(0);
+
+    store.set(countAtom, 6);
+    expect(store.get(scope.stackAtom).past).toHaveLength(1);
+  });
+
+  it('should resume recording only after every pause is resumed', () => {
+    const { scope, countAtom, store, manager } = setup();
+    manager.pauseHistory();
+    manager.withoutHistory(() => store.set(countAtom, 1));
+    expect(manager.isHistoryPaused()).toBe(true);
+
+    store.set(countAtom, 2);
+    manager.resumeHistory();
+    manager.resumeHistory();
+    expect(manager.isHistoryPaused()).toBe(false);
+
+    store.set(countAtom, 3);
+    expect(store.get(scope.stackAtom).past).toHaveLength(1);
+  });
+
+  it('should keep recording paused until async callbacks settle', async () => {
+    const { scope, countAtom, store, manager } = setup();
+    const loading = manager.withoutHistory(async () => {
+      await Promise.resolve();
+      store.set(countAtom, 1);
+    });
+    expect(manager.isHistoryPaused()).toBe(true);
+
+    await loading;
+    expect(manager.isHistoryPaused()).toBe(false);
+    expect(store.get(scope.stackAtom).past).toHaveLength(0);
+  });
+
+  it('should not record async atoms written without history', async () => {
+    const { scope, store, manager } = setup();
+    const textAtom = withHistory(atom(Promise.resolve('')), { scope });
+
+    manager.setWithoutHistory(textAtom, Promise.resolve('server'), { scope });
+    manager.withoutHistory(() => store.set(textAtom, Promise.resolve('loaded')));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(store.get(scope.stackAtom).past).toHaveLength(0);
+
+    store.set(textAtom, Promise.resolve('edited'));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(store.get(scope.stackAtom).past).toEqual([
+      expect.objectContaining({ fullValue: 'loaded', nextFullValue: 'edited' })
+    ]);
+  });
+
+  it('should not merge changes across unrecorded writes', () => {
+    const { scope, textAtom, store, manager } = setup();
+    store.set(textAtom, 'a');
+    manager.setWithoutHistory(textAtom, 'server', { scope });
+    store.set(textAtom, 'server!');
+
+    expect(store.get(scope.stackAtom).past).toHaveLength(2);
+  });
+
+  it('should reset the baseline of an atom', () => {
+    const { scope, textAtom, countAtom, store, manager } = setup();
+    store.set(countAtom, 1);
+    manager.runGroupOperation(() => {
+      store.set(textAtom, 'draft');
+      store.set(countAtom, 2);
+    }, scope);
+
+    manager.setWithoutHistory(textAtom, 'saved', { scope, resetBaseline: true });
+    expect(store.get(scope.stackAtom).past).toEqual([
+      expect.objectContaining({ id: countAtom.id }),
+      expect.objectContaining({ operations: [expect.objectContaining({ id: countAtom.id })] })
+    ]);
+
+    manager.undo(scope);
+    manager.undo(scope);
+    expect(store.get(countAtom)).toBe(0);
+    expect(store.get(textAtom)).toBe('saved');
+  });
+});